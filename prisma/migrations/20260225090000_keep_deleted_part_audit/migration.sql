@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'PART_DELETED';
+
+-- DropForeignKey
+ALTER TABLE "audit_logs"
+DROP CONSTRAINT "audit_logs_part_id_fkey";
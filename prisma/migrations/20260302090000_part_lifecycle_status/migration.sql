@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "PartStatus" AS ENUM (
+  'DRAFT',
+  'RELEASED',
+  'OBSOLETE'
+);
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'PART_STATUS_CHANGED';
+
+-- AlterTable
+ALTER TABLE "parts"
+ADD COLUMN "status" "PartStatus" NOT NULL DEFAULT 'DRAFT';
@@ -0,0 +1,68 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'PART_REVISION_CREATED';
+
+-- AlterTable
+ALTER TABLE "parts"
+ADD COLUMN "current_revision" TEXT NOT NULL DEFAULT 'A';
+
+-- CreateTable
+CREATE TABLE "part_revisions" (
+  "part_id" TEXT NOT NULL,
+  "code" TEXT NOT NULL,
+  "sequence" INTEGER NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT NOT NULL DEFAULT '',
+  "status" "PartStatus" NOT NULL DEFAULT 'DRAFT',
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "released_at" TIMESTAMP(3),
+
+  CONSTRAINT "part_revisions_pkey" PRIMARY KEY ("part_id", "code")
+);
+
+-- Backfill revision A for every existing part
+INSERT INTO "part_revisions" (
+  "part_id",
+  "code",
+  "sequence",
+  "name",
+  "description",
+  "status",
+  "created_at",
+  "released_at"
+)
+SELECT
+  "id",
+  'A',
+  1,
+  "name",
+  "description",
+  "status",
+  "created_at",
+  CASE WHEN "status" = 'DRAFT' THEN NULL ELSE "updated_at" END
+FROM "parts";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "part_revisions_part_sequence_key" ON "part_revisions"("part_id", "sequence");
+
+-- AlterTable
+ALTER TABLE "bom_links"
+ADD COLUMN "revision" TEXT NOT NULL DEFAULT 'A';
+
+ALTER TABLE "bom_links" DROP CONSTRAINT "bom_links_pkey";
+
+ALTER TABLE "bom_links"
+ADD CONSTRAINT "bom_links_pkey" PRIMARY KEY ("parent_id", "revision", "child_id");
+
+-- AddForeignKey
+ALTER TABLE "part_revisions"
+ADD CONSTRAINT "part_revisions_part_id_fkey"
+FOREIGN KEY ("part_id") REFERENCES "parts"("id")
+ON DELETE CASCADE
+ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bom_links"
+ADD CONSTRAINT "bom_links_parent_id_revision_fkey"
+FOREIGN KEY ("parent_id", "revision") REFERENCES "part_revisions"("part_id", "code")
+ON DELETE CASCADE
+ON UPDATE CASCADE;
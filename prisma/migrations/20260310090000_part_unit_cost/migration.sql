@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "parts"
+ADD COLUMN "unit_cost" DECIMAL(14,4),
+ADD COLUMN "currency" TEXT,
+ADD CONSTRAINT "parts_unit_cost_check" CHECK ("unit_cost" IS NULL OR "unit_cost" >= 0);
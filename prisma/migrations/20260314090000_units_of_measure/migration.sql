@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "parts"
+ADD COLUMN "unit" TEXT NOT NULL DEFAULT 'EA';
+
+-- AlterTable
+ALTER TABLE "bom_links"
+ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(18,6),
+ADD COLUMN "unit" TEXT NOT NULL DEFAULT 'EA';
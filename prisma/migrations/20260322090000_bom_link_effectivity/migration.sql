@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "bom_links"
+ADD COLUMN "id" TEXT,
+ADD COLUMN "effective_from" TIMESTAMP(3),
+ADD COLUMN "effective_to" TIMESTAMP(3);
+
+-- Backfill link ids
+UPDATE "bom_links" AS "link"
+SET "id" = 'LNK-' || LPAD("numbered"."row_number"::TEXT, 6, '0')
+FROM (
+  SELECT
+    "parent_id",
+    "revision",
+    "child_id",
+    ROW_NUMBER() OVER (ORDER BY "created_at", "parent_id", "revision", "child_id") AS "row_number"
+  FROM "bom_links"
+) AS "numbered"
+WHERE "link"."parent_id" = "numbered"."parent_id"
+  AND "link"."revision" = "numbered"."revision"
+  AND "link"."child_id" = "numbered"."child_id";
+
+ALTER TABLE "bom_links"
+ALTER COLUMN "id" SET NOT NULL;
+
+ALTER TABLE "bom_links" DROP CONSTRAINT "bom_links_pkey";
+
+ALTER TABLE "bom_links"
+ADD CONSTRAINT "bom_links_pkey" PRIMARY KEY ("id"),
+ADD CONSTRAINT "bom_links_effective_range_check" CHECK (
+  "effective_from" IS NULL OR "effective_to" IS NULL OR "effective_to" > "effective_from"
+);
+
+-- CreateIndex
+CREATE INDEX "idx_bom_links_parent_revision_child" ON "bom_links"("parent_id", "revision", "child_id");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "bom_links"
+ADD COLUMN "find_number" INTEGER,
+ADD COLUMN "reference_designators" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+-- Backfill find numbers in part number order
+UPDATE "bom_links" AS "link"
+SET "find_number" = "numbered"."find_number"
+FROM (
+  SELECT
+    "bom_links"."id",
+    DENSE_RANK() OVER (
+      PARTITION BY "bom_links"."parent_id", "bom_links"."revision"
+      ORDER BY "parts"."part_number"
+    ) * 10 AS "find_number"
+  FROM "bom_links"
+  JOIN "parts" ON "parts"."id" = "bom_links"."child_id"
+) AS "numbered"
+WHERE "link"."id" = "numbered"."id";
+
+ALTER TABLE "bom_links"
+ALTER COLUMN "find_number" SET NOT NULL,
+ADD CONSTRAINT "bom_links_find_number_check" CHECK ("find_number" > 0);
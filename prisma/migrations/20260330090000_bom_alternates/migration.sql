@@ -0,0 +1,47 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'BOM_ALTERNATE_ADDED';
+ALTER TYPE "AuditAction" ADD VALUE 'BOM_ALTERNATE_REMOVED';
+
+-- CreateTable
+CREATE TABLE "bom_alternates" (
+  "id" TEXT NOT NULL,
+  "part_id" TEXT NOT NULL,
+  "alternate_part_id" TEXT NOT NULL,
+  "link_id" TEXT,
+  "rank" INTEGER NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "bom_alternates_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "bom_alternates_rank_check" CHECK ("rank" > 0),
+  CONSTRAINT "bom_alternates_self_check" CHECK ("part_id" <> "alternate_part_id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_bom_alternates_part" ON "bom_alternates"("part_id");
+
+-- CreateIndex
+CREATE INDEX "idx_bom_alternates_alternate_part" ON "bom_alternates"("alternate_part_id");
+
+-- CreateIndex
+CREATE INDEX "idx_bom_alternates_link" ON "bom_alternates"("link_id");
+
+-- AddForeignKey
+ALTER TABLE "bom_alternates"
+ADD CONSTRAINT "bom_alternates_part_id_fkey"
+FOREIGN KEY ("part_id") REFERENCES "parts"("id")
+ON DELETE CASCADE
+ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bom_alternates"
+ADD CONSTRAINT "bom_alternates_alternate_part_id_fkey"
+FOREIGN KEY ("alternate_part_id") REFERENCES "parts"("id")
+ON DELETE CASCADE
+ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bom_alternates"
+ADD CONSTRAINT "bom_alternates_link_id_fkey"
+FOREIGN KEY ("link_id") REFERENCES "bom_links"("id")
+ON DELETE CASCADE
+ON UPDATE CASCADE;
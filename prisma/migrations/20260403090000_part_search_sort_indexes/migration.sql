@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "idx_parts_name_id" ON "parts"("name", "id");
+
+-- CreateIndex
+CREATE INDEX "idx_parts_created_at_id" ON "parts"("created_at", "id");
+
+-- CreateIndex
+CREATE INDEX "idx_parts_updated_at_id" ON "parts"("updated_at", "id");
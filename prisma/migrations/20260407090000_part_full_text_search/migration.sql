@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "parts"
+ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("part_number", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "idx_parts_search_vector" ON "parts" USING GIN ("search_vector");
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "AttributeType" AS ENUM ('STRING', 'NUMBER', 'ENUM', 'BOOLEAN');
+
+-- CreateTable
+CREATE TABLE "attribute_definitions" (
+  "key" TEXT NOT NULL,
+  "label" TEXT NOT NULL,
+  "type" "AttributeType" NOT NULL,
+  "unit" TEXT,
+  "options" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "is_required" BOOLEAN NOT NULL DEFAULT false,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "attribute_definitions_pkey" PRIMARY KEY ("key")
+);
+
+-- AlterTable
+ALTER TABLE "parts"
+ADD COLUMN "attributes" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "categories" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "parent_id" TEXT,
+  "part_number_prefix" TEXT,
+  "required_attributes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "categories_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "categories_self_check" CHECK ("parent_id" <> "id")
+);
+
+-- AlterTable
+ALTER TABLE "parts"
+ADD COLUMN "category_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "idx_categories_parent" ON "categories"("parent_id");
+
+-- CreateIndex
+CREATE INDEX "idx_parts_category" ON "parts"("category_id");
+
+-- AddForeignKey
+ALTER TABLE "categories"
+ADD CONSTRAINT "categories_parent_id_fkey"
+FOREIGN KEY ("parent_id") REFERENCES "categories"("id")
+ON DELETE NO ACTION
+ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "parts"
+ADD CONSTRAINT "parts_category_id_fkey"
+FOREIGN KEY ("category_id") REFERENCES "categories"("id")
+ON DELETE SET NULL
+ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "idx_audit_logs_timestamp_id" ON "audit_logs"("timestamp" DESC, "id" DESC);
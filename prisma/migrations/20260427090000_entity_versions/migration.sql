@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "parts"
+ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "bom_links"
+ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
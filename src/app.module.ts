@@ -1,9 +1,21 @@
 import { Module } from '@nestjs/common';
+import { AttributesModule } from './modules/attributes/attributes.module';
+import { AuditLogsModule } from './modules/audit-logs/audit-logs.module';
 import { BomModule } from './modules/bom/bom.module';
+import { CategoriesModule } from './modules/categories/categories.module';
 import { HealthModule } from './modules/health/health.module';
+import { ImportsModule } from './modules/imports/imports.module';
 import { PartsModule } from './modules/parts/parts.module';
 
 @Module({
-  imports: [HealthModule, PartsModule, BomModule],
+  imports: [
+    HealthModule,
+    PartsModule,
+    BomModule,
+    ImportsModule,
+    AttributesModule,
+    CategoriesModule,
+    AuditLogsModule,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Actor } from './auth.models';
+
+interface ActorScope {
+  actor?: Actor;
+}
+
+const actorStorage = new AsyncLocalStorage<ActorScope>();
+
+export function runInActorScope<T>(callback: () => T): T {
+  return actorStorage.run({}, callback);
+}
+
+export function setCurrentActor(actor: Actor): void {
+  const scope = actorStorage.getStore();
+  if (scope) {
+    scope.actor = actor;
+  }
+}
+
+export function getCurrentActor(): Actor | undefined {
+  return actorStorage.getStore()?.actor;
+}
@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { setCurrentActor } from './actor-context';
+import { AuthService } from './auth.service';
+import { RequireRole, hasRole } from './roles';
+
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRole =
+      this.reflector.getAllAndOverride(RequireRole, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'viewer';
+    const request = context.switchToHttp().getRequest<Request>();
+    const actor = this.authService.authenticate(request.headers);
+
+    if (!hasRole(actor, requiredRole)) {
+      throw new ForbiddenException(
+        `This action requires the ${requiredRole} role.`,
+      );
+    }
+
+    setCurrentActor(actor);
+    return true;
+  }
+}
@@ -0,0 +1,9 @@
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export type CredentialType = 'api-key' | 'jwt' | 'anonymous';
+
+export interface Actor {
+  id: string;
+  role: Role;
+  credential: CredentialType;
+}
@@ -0,0 +1,19 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { runInActorScope } from './actor-context';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+
+@Module({
+  providers: [AuthService, AuthGuard],
+  exports: [AuthService, AuthGuard],
+})
+export class AuthModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer
+      .apply((_request: Request, _response: Response, next: NextFunction) =>
+        runInActorScope(next),
+      )
+      .forRoutes('*path');
+  }
+}
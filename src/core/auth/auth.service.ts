@@ -0,0 +1,176 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { IncomingHttpHeaders } from 'node:http';
+import { Actor, Role } from './auth.models';
+import { ROLES } from './roles';
+
+interface ApiKeyCredential {
+  name: string;
+  role: Role;
+  digest: Buffer;
+}
+
+interface JwtClaims {
+  sub?: unknown;
+  role?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+}
+
+const ANONYMOUS_ACTOR: Actor = {
+  id: 'anonymous',
+  role: 'admin',
+  credential: 'anonymous',
+};
+
+@Injectable()
+export class AuthService {
+  private readonly isDisabled = process.env.AUTH_DISABLED === 'true';
+  private readonly apiKeys = this.parseApiKeys(process.env.AUTH_API_KEYS);
+  private readonly jwtSecret = process.env.AUTH_JWT_SECRET?.trim() || null;
+
+  authenticate(headers: IncomingHttpHeaders): Actor {
+    if (this.isDisabled) {
+      return ANONYMOUS_ACTOR;
+    }
+
+    if (this.apiKeys.length === 0 && !this.jwtSecret) {
+      throw new UnauthorizedException(
+        'Authentication is not configured on this server.',
+      );
+    }
+
+    const apiKey = headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey.length > 0) {
+      return this.authenticateApiKey(apiKey);
+    }
+
+    const bearer = /^Bearer\s+(\S+)$/i.exec(headers.authorization ?? '');
+    if (bearer) {
+      return this.authenticateJwt(bearer[1]);
+    }
+
+    throw new UnauthorizedException(
+      'Send an X-API-Key header or an Authorization: Bearer token.',
+    );
+  }
+
+  private authenticateApiKey(apiKey: string): Actor {
+    const digest = this.digest(apiKey);
+    const credential = this.apiKeys.find((candidate) =>
+      timingSafeEqual(candidate.digest, digest),
+    );
+
+    if (!credential) {
+      throw new UnauthorizedException('API key is invalid.');
+    }
+
+    return {
+      id: credential.name,
+      role: credential.role,
+      credential: 'api-key',
+    };
+  }
+
+  private authenticateJwt(token: string): Actor {
+    if (!this.jwtSecret) {
+      throw new UnauthorizedException(
+        'Bearer tokens are not accepted by this server.',
+      );
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature, ...rest] =
+      token.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature || rest.length) {
+      throw new UnauthorizedException('Bearer token is malformed.');
+    }
+
+    const header = this.decodeJwtPart<{ alg?: unknown }>(encodedHeader);
+    if (header?.alg !== 'HS256') {
+      throw new UnauthorizedException(
+        'Bearer token must be signed with HS256.',
+      );
+    }
+
+    const expected = createHmac('sha256', this.jwtSecret)
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .digest();
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (
+      signature.length !== expected.length ||
+      !timingSafeEqual(signature, expected)
+    ) {
+      throw new UnauthorizedException('Bearer token signature is invalid.');
+    }
+
+    const claims = this.decodeJwtPart<JwtClaims>(encodedPayload);
+    const now = Date.now() / 1000;
+
+    if (typeof claims?.exp !== 'number') {
+      throw new UnauthorizedException('Bearer token must have an exp claim.');
+    }
+
+    if (claims.exp <= now) {
+      throw new UnauthorizedException('Bearer token has expired.');
+    }
+
+    if (typeof claims.nbf === 'number' && claims.nbf > now) {
+      throw new UnauthorizedException('Bearer token is not valid yet.');
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new UnauthorizedException('Bearer token must have a sub claim.');
+    }
+
+    if (!ROLES.includes(claims.role as Role)) {
+      throw new UnauthorizedException(
+        `Bearer token role must be one of: ${ROLES.join(', ')}.`,
+      );
+    }
+
+    return {
+      id: claims.sub,
+      role: claims.role as Role,
+      credential: 'jwt',
+    };
+  }
+
+  private decodeJwtPart<T>(encoded: string): T | null {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(encoded, 'base64url').toString('utf8'),
+      ) as unknown;
+
+      return decoded && typeof decoded === 'object' ? (decoded as T) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseApiKeys(value: string | undefined): ApiKeyCredential[] {
+    if (!value?.trim()) {
+      return [];
+    }
+
+    return value.split(',').map((entry) => {
+      const [name, role, ...keyParts] = entry.trim().split(':');
+      const key = keyParts.join(':');
+
+      if (!name || !ROLES.includes(role as Role) || !key) {
+        throw new Error(
+          `AUTH_API_KEYS entry '${name ?? ''}' must look like name:role:key with role ${ROLES.join(', ')}.`,
+        );
+      }
+
+      return {
+        name,
+        role: role as Role,
+        digest: this.digest(key),
+      };
+    });
+  }
+
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
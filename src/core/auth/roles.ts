@@ -0,0 +1,10 @@
+import { Reflector } from '@nestjs/core';
+import { Role } from './auth.models';
+
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+export const RequireRole = Reflector.createDecorator<Role>();
+
+export function hasRole(actor: { role: Role }, required: Role): boolean {
+  return ROLES.indexOf(actor.role) >= ROLES.indexOf(required);
+}
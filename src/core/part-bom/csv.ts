@@ -0,0 +1,87 @@
+export interface CsvLine {
+  line: number;
+  values: string[];
+}
+
+export function parseCsv(text: string): CsvLine[] {
+  const records: CsvLine[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[index + 1] !== '\n')) {
+          line += 1;
+        }
+
+        field += char;
+      }
+
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+
+      record.push(field);
+      records.push({ line: recordLine, values: record });
+      record = [];
+      field = '';
+      line += 1;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unterminated quoted field.');
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push({ line: recordLine, values: record });
+  }
+
+  return records.filter(
+    ({ values }) => values.length > 1 || values[0].trim().length > 0,
+  );
+}
+
+export function formatCsv(records: (string | number | undefined)[][]): string {
+  return records
+    .map((values) => values.map((value) => formatCsvField(value)).join(','))
+    .join('\r\n')
+    .concat('\r\n');
+}
+
+function formatCsvField(value: string | number | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
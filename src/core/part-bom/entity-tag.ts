@@ -0,0 +1,51 @@
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+
+const ENTITY_TAG_PATTERN = /^(?:W\/)?"(\d+)"$/;
+
+export function formatEntityTag(version: number): string {
+  return `"${version}"`;
+}
+
+export function resolveExpectedVersion(
+  ifMatch: string | undefined,
+  version: unknown,
+): number {
+  let headerVersion: number | undefined;
+  if (ifMatch !== undefined) {
+    const match = ENTITY_TAG_PATTERN.exec(ifMatch.trim());
+    if (!match) {
+      throw new BadRequestException(
+        'If-Match must be a single entity tag such as "3".',
+      );
+    }
+
+    headerVersion = Number(match[1]);
+  }
+
+  if (
+    version !== undefined &&
+    (typeof version !== 'number' || !Number.isInteger(version) || version < 1)
+  ) {
+    throw new BadRequestException('version must be a positive integer.');
+  }
+
+  if (
+    headerVersion !== undefined &&
+    version !== undefined &&
+    headerVersion !== version
+  ) {
+    throw new BadRequestException(
+      'If-Match and version must match when both are provided.',
+    );
+  }
+
+  const expectedVersion = headerVersion ?? version;
+  if (expectedVersion === undefined) {
+    throw new HttpException(
+      'Updates require an If-Match header or a version field.',
+      HttpStatus.PRECONDITION_REQUIRED,
+    );
+  }
+
+  return expectedVersion;
+}
@@ -0,0 +1,72 @@
+import { AttributeType, PartAttributeValue } from './part-bom.models';
+
+interface AttributeValueRule {
+  type: AttributeType;
+  options: string[];
+}
+
+export const ATTRIBUTE_TYPES: AttributeType[] = [
+  'STRING',
+  'NUMBER',
+  'ENUM',
+  'BOOLEAN',
+];
+
+export const ATTRIBUTE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+export function normalizeAttributeValue(
+  rule: AttributeValueRule,
+  value: unknown,
+): PartAttributeValue | undefined {
+  switch (rule.type) {
+    case 'STRING': {
+      const text = typeof value === 'string' ? value.trim() : '';
+      return text.length > 0 ? text : undefined;
+    }
+    case 'NUMBER':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? value
+        : undefined;
+    case 'ENUM': {
+      const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+      return rule.options.find((option) => option.toLowerCase() === text);
+    }
+    case 'BOOLEAN':
+      return typeof value === 'boolean' ? value : undefined;
+  }
+}
+
+export function parseAttributeText(
+  rule: AttributeValueRule,
+  text: string,
+): PartAttributeValue | undefined {
+  const trimmed = text.trim();
+
+  switch (rule.type) {
+    case 'NUMBER':
+      return trimmed.length > 0
+        ? normalizeAttributeValue(rule, Number(trimmed))
+        : undefined;
+    case 'BOOLEAN': {
+      const normalized = trimmed.toLowerCase();
+      return normalized === 'true' || normalized === 'false'
+        ? normalized === 'true'
+        : undefined;
+    }
+    default:
+      return normalizeAttributeValue(rule, trimmed);
+  }
+}
+
+export function describeAttributeRule(rule: AttributeValueRule): string {
+  switch (rule.type) {
+    case 'STRING':
+      return 'a non-empty string';
+    case 'NUMBER':
+      return 'a number';
+    case 'ENUM':
+      return `one of: ${rule.options.join(', ')}`;
+    case 'BOOLEAN':
+      return 'true or false';
+  }
+}
@@ -1,46 +1,374 @@
 import {
   BadRequestException,
+  ConflictException,
   Injectable,
   NotFoundException,
+  PreconditionFailedException,
   OnModuleInit,
 } from '@nestjs/common';
-import { AuditAction as PrismaAuditAction, Prisma } from '@prisma/client';
+import {
+  AttributeType as PrismaAttributeType,
+  AuditAction as PrismaAuditAction,
+  PartStatus as PrismaPartStatus,
+  Prisma,
+} from '@prisma/client';
+import { getCurrentActor } from '../auth/actor-context';
 import { PrismaService } from '../prisma/prisma.service';
 import {
+  AttributeDefinition,
+  AttributeType,
   AuditAction,
-  AuditLog,
+  AuditChanges,
+  AuditLogFilters,
+  AuditLogPage,
+  AuditValue,
+  BomAlternate,
+  BomCompareResponse,
+  BomCostRollupResponse,
+  BomDiffEntry,
+  BomDiffLevel,
+  BomImportFile,
+  BomImportResult,
+  BomImportRowError,
   BomLink,
+  BomChildChange,
+  BomChildrenReplaceResult,
+  BomLinkBatchError,
+  BomLinkBatchOperationType,
+  BomLinkBatchResult,
   BomTreeNode,
   BomTreeResponse,
+  Category,
+  CategorySummary,
+  CategoryTreeNode,
   ChildPartUsage,
+  ComponentReplaceParent,
+  ComponentReplaceResult,
+  CostRollupAssembly,
+  FlatBomItem,
+  FlatBomResponse,
+  IndentedBomResponse,
+  IndentedBomRow,
   Part,
+  PartDeletionResult,
+  PartAttributes,
+  PartClone,
   PartDetails,
+  PartRevisionSummary,
   PartSearchFilters,
+  PartSearchResponse,
+  PartSearchSortField,
+  PartSortField,
+  PartStatus,
   PartSummary,
+  SortOrder,
+  WhereUsedNode,
+  WhereUsedResponse,
 } from './part-bom.models';
+import {
+  ATTRIBUTE_KEY_PATTERN,
+  describeAttributeRule,
+  normalizeAttributeValue,
+  parseAttributeText,
+} from './part-attributes';
+import {
+  DEFAULT_UNIT,
+  SUPPORTED_UNITS,
+  areUnitsCompatible,
+  convertQuantity,
+  getUnitDimension,
+  normalizeUnit,
+  roundQuantity,
+} from './units-of-measure';
 
 interface CreatePartInput {
   partNumber?: string;
   name: string;
   description?: string;
+  unitCost?: number | null;
+  currency?: string;
+  unit?: string;
+  attributes?: Record<string, unknown>;
+  categoryId?: string | null;
 }
 
 interface UpdatePartInput {
+  expectedVersion: number;
   partNumber?: string;
   name?: string;
   description?: string;
+  unitCost?: number | null;
+  currency?: string;
+  unit?: string;
+  attributes?: Record<string, unknown>;
+  categoryId?: string | null;
+}
+
+interface ClonePartInput {
+  partNumber?: string;
+  name?: string;
+  depth: number;
+  partNumberPrefix?: string;
+  partNumberSuffix?: string;
+}
+
+interface PartClonePlan {
+  source: Part;
+  partNumber: string;
+  links: PrismaCloneSourceLinkRecord[];
+}
+
+interface CreateCategoryInput {
+  name: string;
+  parentId?: string | null;
+  partNumberPrefix?: string | null;
+  requiredAttributes?: string[];
+}
+
+interface UpdateCategoryInput {
+  name?: string;
+  parentId?: string | null;
+  partNumberPrefix?: string | null;
+  requiredAttributes?: string[];
+}
+
+interface CreateAttributeDefinitionInput {
+  key: string;
+  label?: string;
+  type: AttributeType;
+  unit?: string | null;
+  options?: string[];
+  isRequired?: boolean;
+}
+
+interface UpdateAttributeDefinitionInput {
+  label?: string;
+  unit?: string | null;
+  options?: string[];
+  isRequired?: boolean;
+}
+
+interface AttributeShape {
+  unit: string | null;
+  options: string[];
+}
+
+interface PartSearchPage {
+  limit: number;
+  cursor?: string;
+  sortBy: PartSortField;
+  sortOrder: SortOrder;
+}
+
+interface FullTextPartSearchPage {
+  limit: number;
+  cursor?: string;
+}
+
+interface PartSearchCursor {
+  sortBy: PartSearchSortField;
+  sortOrder: SortOrder;
+  value: string;
+  id: string;
+}
+
+interface AuditLogPageInput {
+  limit: number;
+  cursor?: string;
+}
+
+interface AuditLogCursor {
+  timestamp: string;
+  id: string;
+}
+
+interface PartCost {
+  unitCost: number | null;
+  currency: string | null;
 }
 
 interface CreateBomLinkInput {
   parentId: string;
   childId: string;
+  findNumber?: number;
   quantity?: number;
+  unit?: string;
+  referenceDesignators?: string[];
+  effectiveFrom?: Date | null;
+  effectiveTo?: Date | null;
+  allowReleasedEdit?: boolean;
 }
 
 interface UpdateBomLinkInput {
   parentId: string;
   childId: string;
+  linkId?: string;
+  expectedVersion: number;
+  findNumber?: number;
+  quantity?: number;
+  unit?: string;
+  referenceDesignators?: string[];
+  effectiveFrom?: Date | null;
+  effectiveTo?: Date | null;
+  allowReleasedEdit?: boolean;
+}
+
+interface BomLinkBatchOperationInput {
+  op: BomLinkBatchOperationType;
+  parentId: string;
+  childId: string;
+  linkId?: string;
+  findNumber?: number;
+  quantity?: number;
+  unit?: string;
+  referenceDesignators?: string[];
+  effectiveFrom?: Date | null;
+  effectiveTo?: Date | null;
+  expectedVersion?: number;
+  auditMetadata?: Record<string, string | number>;
+  replacesLinkId?: string;
+}
+
+interface BomLinkBatchInput {
+  operations: BomLinkBatchOperationInput[];
+  allowReleasedEdit?: boolean;
+}
+
+interface ReplaceBomChildInput {
+  childId: string;
+  quantity: number;
+  unit?: string;
+  referenceDesignators?: string[];
+}
+
+interface ReplaceBomChildrenInput {
+  children: ReplaceBomChildInput[];
+  allowReleasedEdit?: boolean;
+}
+
+interface ReplaceComponentInput {
+  replacementPartId: string;
+  parentIds?: string[];
+  quantityMultiplier: number;
+  allowReleasedEdit?: boolean;
+}
+
+interface BatchBomLink extends BomLine, Effectivity {
+  row?: PrismaBomLinkRecord;
+  plannedBy?: number;
+}
+
+interface BomLinkValues extends BomLinePosition, Effectivity {
+  quantity: number;
+  unit: string;
+}
+
+interface PlannedBatchOperation {
+  index: number;
+  op: BomLinkBatchOperationType;
+  parent: Part;
+  child: Part;
+  row?: PrismaBomLinkRecord;
+  values?: BomLinkValues;
+  changes?: AuditChanges;
+  auditMetadata?: Record<string, string | number>;
+  replacesLinkId?: string;
+}
+
+interface AppliedBatchOperation {
+  operation: PlannedBatchOperation;
+  link: PrismaBomLinkRecord;
+  removedAlternates: PrismaBomAlternateRecord[];
+}
+
+interface BomLinkBatchPlan {
+  planned: PlannedBatchOperation[];
+  errors: BomLinkBatchError[];
+}
+
+interface AddAlternateInput {
+  alternatePartId: string;
+  rank?: number;
+}
+
+interface AddBomLinkAlternateInput extends AddAlternateInput {
+  parentId: string;
+  childId: string;
+  linkId?: string;
+  allowReleasedEdit?: boolean;
+}
+
+interface AlternateLine {
+  linkId: string;
+  parent: Part;
+}
+
+interface Effectivity {
+  effectiveFrom: Date | null;
+  effectiveTo: Date | null;
+}
+
+interface BomLinePosition {
+  findNumber: number;
+  referenceDesignators: string[];
+}
+
+interface BomLine extends BomLinePosition {
+  childId: string;
+  partNumber: string;
+}
+
+interface PartImportRow {
+  row: number;
+  partNumber: string;
+  name: string;
+  description?: string;
+  unit?: string;
+  unitCost?: number;
+  currency?: string;
+  attributes?: Record<string, string>;
+}
+
+interface BomLinkImportRow {
+  row: number;
+  parentPartNumber: string;
+  childPartNumber: string;
+  findNumber?: number;
+  quantity: number;
+  unit?: string;
+  referenceDesignators?: string[];
+}
+
+interface BomImportInput {
+  parts: PartImportRow[];
+  links: BomLinkImportRow[];
+  dryRun: boolean;
+  allowReleasedEdit?: boolean;
+}
+
+interface ImportPartRef {
+  key: string;
+  partNumber: string;
+  status: PartStatus;
+  revision: string;
+  unit: string;
+  isNew: boolean;
+}
+
+interface PlannedImportPart extends PartCost {
+  row: number;
+  ref: ImportPartRef;
+  name: string;
+  description: string;
+  attributes: PartAttributes;
+}
+
+interface PlannedImportLink extends BomLinePosition {
+  row: number;
+  parent: ImportPartRef;
+  child: ImportPartRef;
   quantity: number;
+  unit: string;
 }
 
 interface SeedPartDefinition {
@@ -61,23 +389,163 @@ interface PrismaPartRecord {
   partNumber: string;
   name: string;
   description: string;
+  status: PrismaPartStatus;
+  currentRevision: string;
+  unitCost: Prisma.Decimal | null;
+  currency: string | null;
+  unit: string;
+  attributes: Prisma.JsonValue;
+  categoryId: string | null;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PrismaCategoryRecord {
+  id: string;
+  name: string;
+  parentId: string | null;
+  partNumberPrefix: string | null;
+  requiredAttributes: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PrismaAttributeDefinitionRecord {
+  key: string;
+  label: string;
+  type: PrismaAttributeType;
+  unit: string | null;
+  options: string[];
+  isRequired: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+interface PrismaPartRevisionRecord {
+  code: string;
+  status: PrismaPartStatus;
+  name: string;
+  description: string;
+  createdAt: Date;
+  releasedAt: Date | null;
+  _count: {
+    bomLinks: number;
+  };
+}
+
 interface PrismaBomLinkRecord {
+  id: string;
   parentId: string;
+  revision: string;
   childId: string;
-  quantity: number;
+  findNumber: number;
+  quantity: Prisma.Decimal;
+  unit: string;
+  referenceDesignators: string[];
+  effectiveFrom: Date | null;
+  effectiveTo: Date | null;
+  version: number;
   createdAt: Date;
 }
 
+interface PrismaCloneSourceLinkRecord extends PrismaBomLinkRecord {
+  child: PrismaPartRecord;
+  alternates: {
+    partId: string;
+    alternatePartId: string;
+    rank: number;
+  }[];
+}
+
+interface PrismaBomAlternateRecord {
+  id: string;
+  partId: string;
+  linkId: string | null;
+  rank: number;
+  alternatePart: {
+    id: string;
+    partNumber: string;
+    name: string;
+  };
+}
+
+interface ParentPartUsage {
+  parent: PartSummary;
+  quantity: number;
+  unit: string;
+}
+
+interface BomGraph {
+  rootRevision: string;
+  parts: Map<string, PartSummary>;
+  revisions: Map<string, string>;
+  units: Map<string, string>;
+  childLinks: Map<string, BomLink[]>;
+}
+
+interface PartHistorySnapshot {
+  part: Part;
+  links: BomLink[];
+}
+
+interface PartHistory {
+  load(partId: string): Promise<PartHistorySnapshot | null>;
+  isComplete(): boolean;
+}
+
+interface FullTextPartSearchRow {
+  id: string;
+  partNumber: string;
+  name: string;
+  rank: number;
+  snippet: string;
+}
+
+interface CountRow {
+  total: number | string | bigint;
+}
+
 interface SequenceMaxRow {
   max: number | string | bigint | null;
 }
 
 type TxClient = Prisma.TransactionClient;
 
+const INITIAL_REVISION = 'A';
+const DEFAULT_CURRENCY = 'USD';
+const LATEST_RELEASED_REVISION = 'latest-released';
+const IMPORT_PART_KEY_PREFIX = 'import:';
+const FIND_NUMBER_STEP = 10;
+const BOM_QUANTITY_SCALE = 6;
+const MAX_BOM_QUANTITY = '999999999999.999999';
+const ATTRIBUTE_CHANGE_PREFIX = 'attributes.';
+
+const PART_HISTORY_FIELDS = [
+  'partNumber',
+  'name',
+  'description',
+  'status',
+  'revision',
+  'unitCost',
+  'currency',
+  'unit',
+  'categoryId',
+] as const;
+
+const PART_FIELD_AUDIT_ACTIONS: AuditAction[] = [
+  'PART_CREATED',
+  'PART_UPDATED',
+  'PART_STATUS_CHANGED',
+  'PART_REVISION_CREATED',
+];
+
+const PART_STATUS_TRANSITIONS: Record<PartStatus, PartStatus[]> = {
+  DRAFT: ['RELEASED'],
+  RELEASED: ['OBSOLETE'],
+  OBSOLETE: [],
+};
+
 const SEED_PARTS: SeedPartDefinition[] = [
   {
     key: 'root',
@@ -150,9 +618,16 @@ const SEED_BOM_LINKS: SeedBomLinkDefinition[] = [
 export class PartBomStoreService implements OnModuleInit {
   readonly maxExpandDepth = 5;
   readonly maxExpandNodeLimit = 80;
+  readonly maxIndentedBomRows = 5000;
+  readonly defaultPageSize = 50;
+  readonly maxPageSize = 200;
+  readonly maxBatchSize = 100;
 
   private partIdSequence = 1;
   private auditLogSequence = 1;
+  private bomLinkSequence = 1;
+  private bomAlternateSequence = 1;
+  private categorySequence = 1;
   private partNumberSequence = 1;
 
   constructor(private readonly prisma: PrismaService) {}
@@ -189,6 +664,23 @@ export class PartBomStoreService implements OnModuleInit {
 
     await this.assertPartNumberIsAvailable(partNumber);
 
+    const cost = this.resolvePartCost(input.unitCost, input.currency);
+    const unit =
+      input.unit === undefined ? DEFAULT_UNIT : this.resolveUnit(input.unit);
+    const attributes = this.resolvePartAttributes(
+      input.attributes,
+      await this.getAttributeDefinitionRows(),
+    );
+
+    const categoryId = input.categoryId ?? null;
+    if (categoryId) {
+      this.assertPartFitsCategory(
+        await this.requireCategoryChain(categoryId),
+        partNumber,
+        attributes,
+      );
+    }
+
     const created = await this.prisma.$transaction(async (tx) => {
       const part = await tx.part.create({
         data: {
@@ -196,6 +688,20 @@ export class PartBomStoreService implements OnModuleInit {
           partNumber,
           name: normalizedName,
           description: input.description?.trim() ?? '',
+          unitCost: cost.unitCost,
+          currency: cost.currency,
+          unit,
+          attributes,
+          categoryId,
+          currentRevision: INITIAL_REVISION,
+          revisions: {
+            create: {
+              code: INITIAL_REVISION,
+              sequence: 1,
+              name: normalizedName,
+              description: input.description?.trim() ?? '',
+            },
+          },
         },
       });
 
@@ -219,6 +725,7 @@ export class PartBomStoreService implements OnModuleInit {
 
   async updatePart(partId: string, input: UpdatePartInput): Promise<Part> {
     const part = await this.requirePart(partId);
+    this.assertPartVersion(part, input.expectedVersion);
 
     const nextName = input.name !== undefined ? input.name.trim() : part.name;
     if (!nextName) {
@@ -230,6 +737,20 @@ export class PartBomStoreService implements OnModuleInit {
         ? input.description.trim()
         : part.description;
 
+    if (nextName !== part.name || nextDescription !== part.description) {
+      if (part.status === 'RELEASED') {
+        throw new ConflictException(
+          `Part ${part.partNumber} revision ${part.revision} is RELEASED. Create a new revision with POST /parts/${part.id}/revisions to change its name or description.`,
+        );
+      }
+
+      if (part.status === 'OBSOLETE') {
+        throw new ConflictException(
+          `Part ${part.partNumber} revision ${part.revision} is OBSOLETE. Its name and description cannot be changed.`,
+        );
+      }
+    }
+
     let nextPartNumber = part.partNumber;
     if (input.partNumber !== undefined) {
       const normalizedPartNumber = input.partNumber.trim().toUpperCase();
@@ -247,15 +768,85 @@ export class PartBomStoreService implements OnModuleInit {
       nextPartNumber = normalizedPartNumber;
     }
 
+    const nextCost = this.resolvePartCost(input.unitCost, input.currency, {
+      unitCost: part.unitCost ?? null,
+      currency: part.currency ?? null,
+    });
+
+    let nextUnit = part.unit;
+    if (input.unit !== undefined) {
+      nextUnit = this.resolveUnit(input.unit);
+
+      if (nextUnit !== part.unit) {
+        await this.assertUnitFitsParentLinks(part, nextUnit);
+      }
+    }
+
+    const nextAttributes =
+      input.attributes === undefined
+        ? part.attributes
+        : this.resolvePartAttributes(
+            input.attributes,
+            await this.getAttributeDefinitionRows(),
+            part.attributes,
+          );
+
+    const nextCategoryId =
+      input.categoryId === undefined
+        ? (part.categoryId ?? null)
+        : input.categoryId;
+    if (nextCategoryId) {
+      this.assertPartFitsCategory(
+        await this.requireCategoryChain(nextCategoryId),
+        nextPartNumber,
+        nextAttributes,
+      );
+    }
+
     const updatedPart = await this.prisma.$transaction(async (tx) => {
-      const updated = await tx.part.update({
+      const claimed = await tx.part.updateMany({
         where: {
           id: partId,
+          version: part.version,
         },
         data: {
           partNumber: nextPartNumber,
           name: nextName,
           description: nextDescription,
+          unitCost: nextCost.unitCost,
+          currency: nextCost.currency,
+          unit: nextUnit,
+          attributes: nextAttributes,
+          categoryId: nextCategoryId,
+          version: {
+            increment: 1,
+          },
+        },
+      });
+
+      if (claimed.count === 0) {
+        this.assertPartVersion(
+          await this.requirePart(partId),
+          input.expectedVersion,
+        );
+      }
+
+      const updated = await tx.part.findUniqueOrThrow({
+        where: {
+          id: partId,
+        },
+      });
+
+      await tx.partRevision.update({
+        where: {
+          partId_code: {
+            partId,
+            code: part.revision,
+          },
+        },
+        data: {
+          name: nextName,
+          description: nextDescription,
         },
       });
 
@@ -267,6 +858,7 @@ export class PartBomStoreService implements OnModuleInit {
         {
           name: updated.name,
         },
+        this.diffPartFields(part, this.toPart(updated)),
       );
 
       return updated;
@@ -275,84 +867,4417 @@ export class PartBomStoreService implements OnModuleInit {
     return this.toPart(updatedPart);
   }
 
-  async searchParts(filters: PartSearchFilters): Promise<PartSummary[]> {
-    const byPartNumber = filters.partNumber?.trim();
-    const byName = filters.name?.trim();
-    const byAny = filters.q?.trim();
+  async transitionPartStatus(
+    partId: string,
+    nextStatus: PartStatus,
+  ): Promise<Part> {
+    const part = await this.requirePart(partId);
 
-    const conditions: Prisma.PartWhereInput[] = [];
+    if (part.status === nextStatus) {
+      throw new BadRequestException(
+        `Part ${part.partNumber} is already ${nextStatus}.`,
+      );
+    }
 
-    if (byPartNumber) {
-      conditions.push({
-        partNumber: {
-          contains: byPartNumber,
-          mode: 'insensitive',
-        },
-      });
+    if (!PART_STATUS_TRANSITIONS[part.status].includes(nextStatus)) {
+      throw new BadRequestException(
+        `Part ${part.partNumber} cannot transition from ${part.status} to ${nextStatus}.`,
+      );
     }
 
-    if (byName) {
-      conditions.push({
-        name: {
-          contains: byName,
-          mode: 'insensitive',
+    const updatedPart = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.part.update({
+        where: {
+          id: partId,
+        },
+        data: {
+          status: nextStatus,
+          version: {
+            increment: 1,
+          },
         },
       });
-    }
 
-    if (byAny) {
-      conditions.push({
-        OR: [
-          {
-            name: {
-              contains: byAny,
-              mode: 'insensitive',
-            },
-          },
-          {
-            partNumber: {
-              contains: byAny,
-              mode: 'insensitive',
-            },
+      await tx.partRevision.update({
+        where: {
+          partId_code: {
+            partId,
+            code: part.revision,
           },
-        ],
+        },
+        data: {
+          status: nextStatus,
+          releasedAt: nextStatus === 'RELEASED' ? new Date() : undefined,
+        },
       });
-    }
 
-    const rows = await this.prisma.part.findMany({
-      where: conditions.length > 0 ? { AND: conditions } : undefined,
-      orderBy: {
-        partNumber: 'asc',
-      },
-      select: {
-        id: true,
-        partNumber: true,
-        name: true,
-      },
+      await this.writeAudit(
+        tx,
+        partId,
+        'PART_STATUS_CHANGED',
+        `Part ${updated.partNumber} revision ${part.revision} moved from ${part.status} to ${nextStatus}.`,
+        {
+          revision: part.revision,
+          from: part.status,
+          to: nextStatus,
+        },
+        this.diffPartFields(part, this.toPart(updated)),
+      );
+
+      return updated;
     });
 
-    return rows.map((row) => ({
-      id: row.id,
-      partNumber: row.partNumber,
-      name: row.name,
-    }));
+    return this.toPart(updatedPart);
+  }
+
+  async createPartRevision(partId: string): Promise<PartRevisionSummary> {
+    const part = await this.requirePart(partId);
+
+    if (part.status !== 'RELEASED') {
+      throw new BadRequestException(
+        `Revision ${part.revision} of part ${part.partNumber} must be RELEASED before a new revision can be created.`,
+      );
+    }
+
+    const latestRevision = await this.prisma.partRevision.findFirst({
+      where: {
+        partId,
+      },
+      orderBy: {
+        sequence: 'desc',
+      },
+      select: {
+        sequence: true,
+      },
+    });
+
+    const sequence = (latestRevision?.sequence ?? 0) + 1;
+    const code = this.toRevisionCode(sequence);
+
+    const createdRevision = await this.prisma.$transaction(async (tx) => {
+      const revision = await tx.partRevision.create({
+        data: {
+          partId,
+          code,
+          sequence,
+          name: part.name,
+          description: part.description,
+        },
+      });
+
+      const sourceLinks = await tx.bomLink.findMany({
+        where: {
+          parentId: partId,
+          revision: part.revision,
+        },
+      });
+
+      const copiedLinkIds = new Map(
+        sourceLinks.map((link) => [link.id, this.allocateBomLinkId()]),
+      );
+
+      if (sourceLinks.length > 0) {
+        await tx.bomLink.createMany({
+          data: sourceLinks.map((link) => ({
+            id: copiedLinkIds.get(link.id) as string,
+            parentId: partId,
+            revision: code,
+            childId: link.childId,
+            findNumber: link.findNumber,
+            quantity: link.quantity,
+            unit: link.unit,
+            referenceDesignators: link.referenceDesignators,
+            effectiveFrom: link.effectiveFrom,
+            effectiveTo: link.effectiveTo,
+          })),
+        });
+
+        const sourceAlternates = await tx.bomAlternate.findMany({
+          where: {
+            linkId: {
+              in: sourceLinks.map((link) => link.id),
+            },
+          },
+        });
+
+        if (sourceAlternates.length > 0) {
+          await tx.bomAlternate.createMany({
+            data: sourceAlternates.map((alternate) => ({
+              id: this.allocateBomAlternateId(),
+              partId: alternate.partId,
+              alternatePartId: alternate.alternatePartId,
+              linkId: copiedLinkIds.get(alternate.linkId as string),
+              rank: alternate.rank,
+            })),
+          });
+        }
+      }
+
+      const updated = await tx.part.update({
+        where: {
+          id: partId,
+        },
+        data: {
+          currentRevision: code,
+          status: 'DRAFT',
+          version: {
+            increment: 1,
+          },
+        },
+      });
+
+      await this.writeAudit(
+        tx,
+        partId,
+        'PART_REVISION_CREATED',
+        `Revision ${code} of part ${part.partNumber} was created from revision ${part.revision}.`,
+        {
+          revision: code,
+          fromRevision: part.revision,
+          copiedLinks: sourceLinks.length,
+        },
+        this.diffPartFields(part, this.toPart(updated)),
+      );
+
+      return {
+        ...revision,
+        _count: {
+          bomLinks: sourceLinks.length,
+        },
+      };
+    });
+
+    return this.toPartRevisionSummary(createdRevision, code);
+  }
+
+  async clonePart(partId: string, input: ClonePartInput): Promise<PartClone> {
+    const source = await this.requirePart(partId);
+
+    if (!Number.isInteger(input.depth) || input.depth < 0) {
+      throw new BadRequestException('Depth must be an integer >= 0.');
+    }
+
+    if (input.depth > this.maxExpandDepth) {
+      throw new BadRequestException(
+        `Expand limit exceeded. Maximum supported depth is ${this.maxExpandDepth}.`,
+      );
+    }
+
+    const requestedPartNumber = input.partNumber?.trim().toUpperCase();
+    const plans = new Map<string, PartClonePlan>();
+    plans.set(source.id, {
+      source,
+      partNumber: requestedPartNumber
+        ? requestedPartNumber
+        : await this.allocatePartNumber(),
+      links: input.depth > 0 ? await this.getCloneSourceLinks(source) : [],
+    });
+
+    const prefix = input.partNumberPrefix?.trim().toUpperCase() ?? '';
+    const suffix = input.partNumberSuffix?.trim().toUpperCase() ?? '';
+    const leafIds = new Set<string>();
+    let level = [source.id];
+
+    for (let current = 1; current < input.depth; current += 1) {
+      const nextLevel: string[] = [];
+
+      for (const parentId of level) {
+        for (const link of plans.get(parentId)?.links ?? []) {
+          if (plans.has(link.childId) || leafIds.has(link.childId)) {
+            continue;
+          }
+
+          const child = this.toPart(link.child);
+          const links = await this.getCloneSourceLinks(child);
+          if (links.length === 0) {
+            leafIds.add(child.id);
+            continue;
+          }
+
+          plans.set(child.id, {
+            source: child,
+            partNumber:
+              prefix || suffix
+                ? `${prefix}${child.partNumber}${suffix}`
+                : await this.allocatePartNumber(),
+            links,
+          });
+          nextLevel.push(child.id);
+        }
+      }
+
+      level = nextLevel;
+    }
+
+    const partNumbers = new Set<string>();
+    for (const plan of plans.values()) {
+      if (partNumbers.has(plan.partNumber)) {
+        throw new BadRequestException(
+          `Part number '${plan.partNumber}' would be used by more than one copy.`,
+        );
+      }
+
+      partNumbers.add(plan.partNumber);
+      await this.assertPartNumberIsAvailable(plan.partNumber);
+
+      if (plan.source.categoryId) {
+        this.assertPartFitsCategory(
+          await this.requireCategoryChain(plan.source.categoryId),
+          plan.partNumber,
+          plan.source.attributes,
+        );
+      }
+
+      for (const link of plan.links) {
+        if (!plans.has(link.childId) && link.child.status === 'OBSOLETE') {
+          throw new BadRequestException(
+            `Obsolete part ${link.child.partNumber} cannot be added to a BOM.`,
+          );
+        }
+      }
+    }
+
+    const cloned = await this.prisma.$transaction(async (tx) => {
+      const copies = new Map<string, Part>();
+
+      for (const plan of plans.values()) {
+        const name =
+          plan.source.id === source.id && input.name?.trim()
+            ? input.name.trim()
+            : plan.source.name;
+        const row = await tx.part.create({
+          data: {
+            id: this.allocatePartId(),
+            partNumber: plan.partNumber,
+            name,
+            description: plan.source.description,
+            unitCost: plan.source.unitCost ?? null,
+            currency: plan.source.currency ?? null,
+            unit: plan.source.unit,
+            attributes: plan.source.attributes,
+            categoryId: plan.source.categoryId ?? null,
+            currentRevision: INITIAL_REVISION,
+            revisions: {
+              create: {
+                code: INITIAL_REVISION,
+                sequence: 1,
+                name,
+                description: plan.source.description,
+              },
+            },
+          },
+        });
+
+        this.updatePartNumberSequence(row.partNumber);
+        copies.set(plan.source.id, this.toPart(row));
+
+        const globalAlternates = await tx.bomAlternate.findMany({
+          where: {
+            partId: plan.source.id,
+            linkId: null,
+          },
+        });
+
+        if (globalAlternates.length > 0) {
+          await tx.bomAlternate.createMany({
+            data: globalAlternates.map((alternate) => ({
+              id: this.allocateBomAlternateId(),
+              partId: row.id,
+              alternatePartId: alternate.alternatePartId,
+              rank: alternate.rank,
+            })),
+          });
+        }
+
+        await this.writeAudit(
+          tx,
+          row.id,
+          'PART_CREATED',
+          `Part ${row.partNumber} was created as a copy of ${plan.source.partNumber} revision ${plan.source.revision}.`,
+          {
+            name: row.name,
+            sourcePartId: plan.source.id,
+            sourcePartNumber: plan.source.partNumber,
+            sourceRevision: plan.source.revision,
+            sourceStatus: plan.source.status,
+          },
+        );
+
+        await this.writeAudit(
+          tx,
+          plan.source.id,
+          'PART_CLONED',
+          `Part ${plan.source.partNumber} revision ${plan.source.revision} was copied to ${row.partNumber}.`,
+          {
+            copyPartId: row.id,
+            copyPartNumber: row.partNumber,
+            revision: plan.source.revision,
+          },
+        );
+      }
+
+      let linkCount = 0;
+
+      for (const plan of plans.values()) {
+        const parent = copies.get(plan.source.id) as Part;
+
+        for (const sourceLink of plan.links) {
+          const child =
+            copies.get(sourceLink.childId) ?? this.toPart(sourceLink.child);
+          const link = await tx.bomLink.create({
+            data: {
+              id: this.allocateBomLinkId(),
+              parentId: parent.id,
+              revision: parent.revision,
+              childId: child.id,
+              findNumber: sourceLink.findNumber,
+              quantity: sourceLink.quantity,
+              unit: sourceLink.unit,
+              referenceDesignators: sourceLink.referenceDesignators,
+              effectiveFrom: sourceLink.effectiveFrom,
+              effectiveTo: sourceLink.effectiveTo,
+            },
+          });
+
+          if (sourceLink.alternates.length > 0) {
+            await tx.bomAlternate.createMany({
+              data: sourceLink.alternates.map((alternate) => ({
+                id: this.allocateBomAlternateId(),
+                partId: copies.get(alternate.partId)?.id ?? alternate.partId,
+                alternatePartId: alternate.alternatePartId,
+                linkId: link.id,
+                rank: alternate.rank,
+              })),
+            });
+          }
+
+          await this.writeBomLinkCreatedAudits(tx, parent, child, link);
+          linkCount += 1;
+        }
+      }
+
+      return {
+        copies,
+        linkCount,
+      };
+    });
+
+    return {
+      part: cloned.copies.get(source.id) as Part,
+      depth: input.depth,
+      copiedParts: [...plans.values()].map((plan) => ({
+        source: this.toPartSummary(plan.source),
+        part: this.toPartSummary(cloned.copies.get(plan.source.id) as Part),
+      })),
+      linkCount: cloned.linkCount,
+    };
+  }
+
+  async searchParts(
+    filters: PartSearchFilters,
+    page: PartSearchPage,
+  ): Promise<PartSearchResponse> {
+    const byPartNumber = filters.partNumber?.trim();
+    const byName = filters.name?.trim();
+    const byAny = filters.q?.trim();
+
+    const conditions: Prisma.PartWhereInput[] = [];
+
+    if (byPartNumber) {
+      conditions.push({
+        partNumber: {
+          contains: byPartNumber,
+          mode: 'insensitive',
+        },
+      });
+    }
+
+    if (byName) {
+      conditions.push({
+        name: {
+          contains: byName,
+          mode: 'insensitive',
+        },
+      });
+    }
+
+    if (byAny) {
+      conditions.push({
+        OR: [
+          {
+            name: {
+              contains: byAny,
+              mode: 'insensitive',
+            },
+          },
+          {
+            partNumber: {
+              contains: byAny,
+              mode: 'insensitive',
+            },
+          },
+        ],
+      });
+    }
+
+    const attributeFilters = Object.entries(filters.attributes ?? {});
+    if (attributeFilters.length > 0) {
+      const definitions = new Map(
+        (await this.getAttributeDefinitionRows()).map((row) => [row.key, row]),
+      );
+
+      for (const [key, text] of attributeFilters) {
+        const definition = definitions.get(key);
+        if (!definition) {
+          throw new BadRequestException(`Unknown attribute '${key}'.`);
+        }
+
+        const value = parseAttributeText(definition, text);
+        if (value === undefined) {
+          throw new BadRequestException(
+            `Attribute filter '${key}' must be ${describeAttributeRule(definition)}.`,
+          );
+        }
+
+        conditions.push({
+          attributes: {
+            path: [key],
+            equals: value,
+          },
+        });
+      }
+    }
+
+    if (filters.categoryId) {
+      const categories = await this.getCategoryRows();
+      if (!categories.has(filters.categoryId)) {
+        throw new NotFoundException(
+          `Category '${filters.categoryId}' was not found.`,
+        );
+      }
+
+      conditions.push({
+        categoryId: {
+          in: this.getCategorySubtreeIds(categories, filters.categoryId),
+        },
+      });
+    }
+
+    this.assertPageSize(page.limit);
+
+    const { sortBy, sortOrder } = page;
+    const where: Prisma.PartWhereInput = { AND: conditions };
+    const pageConditions = [...conditions];
+
+    if (page.cursor) {
+      const cursor = this.decodePartSearchCursor(page.cursor);
+      if (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) {
+        throw new BadRequestException(
+          'cursor does not match the requested sort.',
+        );
+      }
+
+      const direction = sortOrder === 'asc' ? 'gt' : 'lt';
+      const value =
+        sortBy === 'createdAt' || sortBy === 'updatedAt'
+          ? new Date(cursor.value)
+          : cursor.value;
+
+      pageConditions.push({
+        OR: [
+          {
+            [sortBy]: {
+              [direction]: value,
+            },
+          },
+          {
+            [sortBy]: value,
+            id: {
+              [direction]: cursor.id,
+            },
+          },
+        ],
+      } as Prisma.PartWhereInput);
+    }
+
+    const [total, rows] = await Promise.all([
+      this.prisma.part.count({
+        where,
+      }),
+      this.prisma.part.findMany({
+        where: {
+          AND: pageConditions,
+        },
+        orderBy: [
+          {
+            [sortBy]: sortOrder,
+          },
+          {
+            id: sortOrder,
+          },
+        ],
+        take: page.limit + 1,
+        select: {
+          id: true,
+          partNumber: true,
+          name: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+    ]);
+
+    const pageRows = rows.slice(0, page.limit);
+    const lastRow = pageRows.at(-1);
+    const sortValue = lastRow?.[sortBy];
+
+    return {
+      items: pageRows.map((row) => ({
+        id: row.id,
+        partNumber: row.partNumber,
+        name: row.name,
+      })),
+      total,
+      limit: page.limit,
+      sortBy,
+      sortOrder,
+      nextCursor:
+        rows.length > page.limit && lastRow && sortValue !== undefined
+          ? this.encodeCursor({
+              sortBy,
+              sortOrder,
+              value:
+                sortValue instanceof Date ? sortValue.toISOString() : sortValue,
+              id: lastRow.id,
+            })
+          : null,
+    };
+  }
+
+  async searchPartsFullText(
+    query: string,
+    page: FullTextPartSearchPage,
+  ): Promise<PartSearchResponse> {
+    this.assertPageSize(page.limit);
+
+    const terms = query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length > 0);
+    if (terms.length === 0) {
+      throw new BadRequestException(
+        'q must contain at least one word for full-text search.',
+      );
+    }
+
+    let afterCursor = Prisma.empty;
+    if (page.cursor) {
+      const cursor = this.decodePartSearchCursor(page.cursor);
+      const rank = Number(cursor.value);
+      if (
+        cursor.sortBy !== 'relevance' ||
+        cursor.value.trim() === '' ||
+        !Number.isFinite(rank)
+      ) {
+        throw new BadRequestException(
+          'cursor does not match the requested sort.',
+        );
+      }
+
+      afterCursor = Prisma.sql`
+        WHERE "rank" < ${rank}::real
+          OR ("rank" = ${rank}::real AND "id" > ${cursor.id})
+      `;
+    }
+
+    const tsQuery = terms.map((term) => `${term}:*`).join(' & ');
+    const [countRows, rows] = await Promise.all([
+      this.prisma.$queryRaw<CountRow[]>`
+        SELECT COUNT(*) AS total
+        FROM "parts"
+        WHERE "search_vector" @@ to_tsquery('english', ${tsQuery})
+      `,
+      this.prisma.$queryRaw<FullTextPartSearchRow[]>`
+        WITH "matches" AS (
+          SELECT
+            "id",
+            "part_number",
+            "name",
+            "description",
+            "query",
+            ts_rank("search_vector", "query") AS "rank"
+          FROM "parts", to_tsquery('english', ${tsQuery}) AS "query"
+          WHERE "search_vector" @@ "query"
+        )
+        SELECT
+          "id",
+          "part_number" AS "partNumber",
+          "name",
+          "rank",
+          ts_headline(
+            'english',
+            replace(replace(replace(replace(replace(
+              concat_ws(' - ', "part_number", "name", NULLIF("description", '')),
+              '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;'),
+            "query",
+            'StartSel=<mark>, StopSel=</mark>, MinWords=5, MaxWords=20, MaxFragments=2'
+          ) AS "snippet"
+        FROM "matches"
+        ${afterCursor}
+        ORDER BY "rank" DESC, "id" ASC
+        LIMIT ${page.limit + 1}
+      `,
+    ]);
+
+    const pageRows = rows.slice(0, page.limit);
+    const lastRow = pageRows.at(-1);
+
+    return {
+      items: pageRows.map((row) => ({
+        id: row.id,
+        partNumber: row.partNumber,
+        name: row.name,
+        rank: Number(row.rank),
+        snippet: row.snippet,
+      })),
+      total: Number(countRows.at(0)?.total ?? 0),
+      limit: page.limit,
+      sortBy: 'relevance',
+      sortOrder: 'desc',
+      nextCursor:
+        rows.length > page.limit && lastRow
+          ? this.encodeCursor({
+              sortBy: 'relevance',
+              sortOrder: 'desc',
+              value: String(lastRow.rank),
+              id: lastRow.id,
+            })
+          : null,
+    };
+  }
+
+  async getPartDetails(partId: string, asOf?: Date): Promise<PartDetails> {
+    if (asOf) {
+      return this.getPartDetailsAsOf(partId, asOf);
+    }
+
+    const part = await this.requirePart(partId);
+
+    const [parentParts, childParts, alternates, revisions, category] =
+      await Promise.all([
+        this.getParentParts(partId),
+        this.getChildParts(partId, part.revision),
+        this.getPartAlternates(partId),
+        this.getPartRevisions(partId, part.revision),
+        this.getCategorySummary(part.categoryId),
+      ]);
+
+    return {
+      ...part,
+      parentCount: parentParts.length,
+      childCount: childParts.length,
+      parentParts,
+      childParts,
+      alternates,
+      revisions,
+      category,
+    };
+  }
+
+  async getPartDetailsAsOf(partId: string, asOf: Date): Promise<PartDetails> {
+    const currentPart = await this.requirePart(partId);
+    const history = this.createPartHistory(asOf);
+    const snapshot = await this.requirePartSnapshot(history, currentPart, asOf);
+    const { part } = snapshot;
+
+    const childParts: ChildPartUsage[] = [];
+    for (const link of snapshot.links) {
+      if (link.revision !== part.revision) {
+        continue;
+      }
+
+      const child = (await history.load(link.childId))?.part;
+      if (child) {
+        childParts.push(
+          this.toChildPartUsage(this.toPartSummary(child), link, []),
+        );
+      }
+    }
+
+    const [linkedParents, removedParentEvents, revisionRows] =
+      await Promise.all([
+        this.prisma.bomLink.findMany({
+          where: {
+            childId: partId,
+          },
+          distinct: ['parentId'],
+          select: {
+            parentId: true,
+          },
+        }),
+        this.prisma.auditLog.findMany({
+          where: {
+            partId,
+            action: 'BOM_LINK_REMOVED',
+            timestamp: {
+              gt: asOf,
+            },
+          },
+          select: {
+            metadata: true,
+          },
+        }),
+        this.prisma.partRevision.findMany({
+          where: {
+            partId,
+            createdAt: {
+              lte: asOf,
+            },
+          },
+          orderBy: {
+            sequence: 'asc',
+          },
+          include: {
+            _count: {
+              select: {
+                bomLinks: true,
+              },
+            },
+          },
+        }),
+      ]);
+
+    const candidateParentIds = new Set(
+      linkedParents.map((row) => row.parentId),
+    );
+    for (const event of removedParentEvents) {
+      const parentId = this.toAuditMetadata(event.metadata)?.parentId;
+      if (typeof parentId === 'string') {
+        candidateParentIds.add(parentId);
+      }
+    }
+
+    const parentParts: PartSummary[] = [];
+    for (const parentId of candidateParentIds) {
+      const parentSnapshot = await history.load(parentId);
+      const usesPart = parentSnapshot?.links.some(
+        (link) =>
+          link.childId === partId &&
+          link.revision === parentSnapshot.part.revision,
+      );
+
+      if (parentSnapshot && usesPart) {
+        parentParts.push(this.toPartSummary(parentSnapshot.part));
+      }
+    }
+
+    const byPartNumber = (left: PartSummary, right: PartSummary) =>
+      left.partNumber.localeCompare(right.partNumber);
+    childParts.sort(
+      (left, right) =>
+        left.findNumber - right.findNumber || byPartNumber(left, right),
+    );
+    parentParts.sort(byPartNumber);
+
+    const revisions = revisionRows.map((row) => {
+      const summary = this.toPartRevisionSummary(row, part.revision);
+
+      if (summary.releasedAt && new Date(summary.releasedAt) > asOf) {
+        delete summary.releasedAt;
+      }
+
+      if (summary.isCurrent) {
+        summary.status = part.status;
+        summary.name = part.name;
+        summary.description = part.description;
+        summary.childCount = childParts.length;
+      }
+
+      return summary;
+    });
+
+    return {
+      ...part,
+      parentCount: parentParts.length,
+      childCount: childParts.length,
+      parentParts,
+      childParts,
+      alternates: [],
+      revisions,
+      category: await this.getCategorySummary(part.categoryId),
+      asOf: asOf.toISOString(),
+      isHistoryComplete: history.isComplete(),
+    };
+  }
+
+  async deletePart(
+    partId: string,
+    force = false,
+    allowReleasedEdit = false,
+  ): Promise<PartDeletionResult> {
+    const part = await this.requirePart(partId);
+
+    return this.prisma.$transaction(async (tx) => {
+      const links = await tx.bomLink.findMany({
+        where: {
+          OR: [
+            {
+              parentId: part.id,
+            },
+            {
+              childId: part.id,
+            },
+          ],
+        },
+        include: {
+          parent: true,
+          child: true,
+          parentRevision: {
+            select: {
+              status: true,
+            },
+          },
+        },
+        orderBy: [
+          {
+            parent: {
+              partNumber: 'asc',
+            },
+          },
+          {
+            child: {
+              partNumber: 'asc',
+            },
+          },
+        ],
+      });
+
+      const parentParts = new Map<string, PartSummary>();
+      const childParts = new Map<string, PartSummary>();
+      for (const link of links) {
+        if (link.childId === part.id) {
+          parentParts.set(
+            link.parentId,
+            this.toPartSummary(this.toPart(link.parent)),
+          );
+        } else {
+          childParts.set(
+            link.childId,
+            this.toPartSummary(this.toPart(link.child)),
+          );
+        }
+      }
+
+      const alternates = await tx.bomAlternate.findMany({
+        where: {
+          OR: [
+            {
+              partId: part.id,
+            },
+            {
+              alternatePartId: part.id,
+            },
+            {
+              link: {
+                parentId: part.id,
+              },
+            },
+          ],
+        },
+        include: {
+          part: true,
+          alternatePart: true,
+          link: {
+            include: {
+              parent: true,
+              parentRevision: {
+                select: {
+                  status: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: [
+          {
+            part: {
+              partNumber: 'asc',
+            },
+          },
+          {
+            rank: 'asc',
+          },
+        ],
+      });
+
+      const alternateFor = new Map<string, PartSummary>();
+      for (const alternate of alternates) {
+        if (alternate.alternatePartId === part.id) {
+          alternateFor.set(
+            alternate.partId,
+            this.toPartSummary(this.toPart(alternate.part)),
+          );
+        }
+      }
+
+      if (parentParts.size > 0 && !force) {
+        const parentList = [...parentParts.values()]
+          .map((parent) => parent.partNumber)
+          .join(', ');
+
+        throw new ConflictException({
+          statusCode: 409,
+          error: 'Conflict',
+          message: `Part ${part.partNumber} is still used by ${parentParts.size} parent assembly(s): ${parentList}. Use force=true to remove its BOM links and delete it.`,
+          parentParts: [...parentParts.values()],
+          usages: links
+            .filter((link) => link.childId === part.id)
+            .map((link) => ({
+              linkId: link.id,
+              parentId: link.parentId,
+              parentPartNumber: link.parent.partNumber,
+              revision: link.revision,
+              status: link.parentRevision.status,
+            })),
+        });
+      }
+
+      if (alternateFor.size > 0 && !force) {
+        const partList = [...alternateFor.values()]
+          .map((alternatePart) => alternatePart.partNumber)
+          .join(', ');
+
+        throw new ConflictException({
+          statusCode: 409,
+          error: 'Conflict',
+          message: `Part ${part.partNumber} is an alternate for ${alternateFor.size} part(s): ${partList}. Use force=true to remove these alternates and delete it.`,
+          alternateFor: [...alternateFor.values()],
+        });
+      }
+
+      for (const link of [
+        ...links,
+        ...alternates.flatMap((alternate) =>
+          alternate.link ? [alternate.link] : [],
+        ),
+      ]) {
+        this.assertBomIsEditable(
+          {
+            partNumber: link.parent.partNumber,
+            status: link.parentRevision.status,
+          },
+          allowReleasedEdit,
+        );
+      }
+
+      for (const link of links) {
+        await this.writeBomLinkRemovedAudits(
+          tx,
+          this.toPart(link.parent),
+          this.toPart(link.child),
+          link,
+          'because the part was deleted',
+        );
+      }
+
+      for (const alternate of alternates) {
+        await this.writeAlternateRemovedAudit(
+          tx,
+          this.toPart(alternate.part),
+          alternate,
+          alternate.link
+            ? {
+                linkId: alternate.link.id,
+                parent: this.toPart(alternate.link.parent),
+              }
+            : undefined,
+          'because the part was deleted',
+        );
+      }
+
+      await this.writeAudit(
+        tx,
+        part.id,
+        'PART_DELETED',
+        `Part ${part.partNumber} was deleted.`,
+        {
+          name: part.name,
+          partNumber: part.partNumber,
+          revision: part.revision,
+          status: part.status,
+          removedLinkCount: links.length,
+          removedAlternateCount: alternates.length,
+        },
+      );
+
+      await tx.part.delete({
+        where: {
+          id: part.id,
+        },
+      });
+
+      return {
+        partId: part.id,
+        partNumber: part.partNumber,
+        detachedParents: [...parentParts.values()],
+        detachedChildren: [...childParts.values()],
+        removedAlternateCount: alternates.length,
+      };
+    });
+  }
+
+  async getPartAuditLogs(
+    partId: string,
+    page: AuditLogPageInput,
+  ): Promise<AuditLogPage> {
+    const auditLog = await this.prisma.auditLog.findFirst({
+      where: {
+        partId,
+      },
+      select: {
+        id: true,
+      },
+    });
+    if (!auditLog) {
+      await this.requirePart(partId);
+    }
+
+    return this.searchAuditLogs({ partId }, page);
+  }
+
+  async searchAuditLogs(
+    filters: AuditLogFilters,
+    page: AuditLogPageInput,
+  ): Promise<AuditLogPage> {
+    this.assertPageSize(page.limit);
+
+    const conditions: Prisma.AuditLogWhereInput[] = [];
+
+    if (filters.actions && filters.actions.length > 0) {
+      conditions.push({
+        action: {
+          in: filters.actions as PrismaAuditAction[],
+        },
+      });
+    }
+
+    if (filters.partId) {
+      conditions.push({
+        partId: filters.partId,
+      });
+    }
+
+    if (filters.actor) {
+      conditions.push({
+        actor: filters.actor,
+      });
+    }
+
+    if (filters.from) {
+      conditions.push({
+        timestamp: {
+          gte: filters.from,
+        },
+      });
+    }
+
+    if (filters.to) {
+      conditions.push({
+        timestamp: {
+          lt: filters.to,
+        },
+      });
+    }
+
+    const byMessage = filters.q?.trim();
+    if (byMessage) {
+      conditions.push({
+        message: {
+          contains: byMessage,
+          mode: 'insensitive',
+        },
+      });
+    }
+
+    if (page.cursor) {
+      const cursor = this.decodeAuditLogCursor(page.cursor);
+      const timestamp = new Date(cursor.timestamp);
+
+      conditions.push({
+        OR: [
+          {
+            timestamp: {
+              lt: timestamp,
+            },
+          },
+          {
+            timestamp,
+            id: {
+              lt: cursor.id,
+            },
+          },
+        ],
+      });
+    }
+
+    const rows = await this.prisma.auditLog.findMany({
+      where: {
+        AND: conditions,
+      },
+      orderBy: [
+        {
+          timestamp: 'desc',
+        },
+        {
+          id: 'desc',
+        },
+      ],
+      take: page.limit + 1,
+    });
+
+    const pageRows = rows.slice(0, page.limit);
+    const lastRow = pageRows.at(-1);
+
+    return {
+      items: pageRows.map((row) => ({
+        id: row.id,
+        partId: row.partId,
+        action: row.action,
+        message: row.message,
+        timestamp: row.timestamp.toISOString(),
+        metadata: this.toAuditMetadata(row.metadata),
+        changes: this.toAuditChanges(row.changes),
+        actor: row.actor ?? undefined,
+      })),
+      limit: page.limit,
+      nextCursor:
+        rows.length > page.limit && lastRow
+          ? this.encodeCursor({
+              timestamp: lastRow.timestamp.toISOString(),
+              id: lastRow.id,
+            })
+          : null,
+    };
+  }
+
+  async createBomLink(input: CreateBomLinkInput): Promise<BomLink> {
+    const [parent, child] = await Promise.all([
+      this.requirePart(input.parentId),
+      this.requirePart(input.childId),
+    ]);
+
+    if (parent.id === child.id) {
+      throw new BadRequestException(
+        'A part cannot be linked to itself in BOM.',
+      );
+    }
+
+    const unit = this.resolveLinkUnit(input.unit, child.unit, child);
+    const quantity = input.quantity ?? 1;
+    this.assertLinkQuantityIsValid(quantity, unit);
+
+    if (child.status === 'OBSOLETE') {
+      throw new BadRequestException(
+        `Obsolete part ${child.partNumber} cannot be added to a BOM.`,
+      );
+    }
+
+    this.assertBomIsEditable(parent, input.allowReleasedEdit);
+
+    const effectivity = this.resolveEffectivity(input);
+    await this.assertNoOverlappingLink(parent, child, effectivity);
+
+    const position = this.resolveBomLinePosition(
+      input,
+      quantity,
+      parent.partNumber,
+      child.id,
+      await this.getBomLines(parent.id, parent.revision),
+    );
+
+    if (await this.isReachable(child.id, parent.id)) {
+      throw new BadRequestException(
+        'BOM link creation failed because it would introduce a cycle.',
+      );
+    }
+
+    const createdLink = await this.prisma.$transaction(async (tx) => {
+      const link = await tx.bomLink.create({
+        data: {
+          id: this.allocateBomLinkId(),
+          parentId: parent.id,
+          revision: parent.revision,
+          childId: child.id,
+          quantity,
+          unit,
+          ...position,
+          ...effectivity,
+        },
+      });
+
+      await this.writeBomLinkCreatedAudits(tx, parent, child, link);
+
+      return link;
+    });
+
+    return this.toBomLink(createdLink);
+  }
+
+  async getBomLink(linkId: string): Promise<BomLink> {
+    const row = await this.prisma.bomLink.findUnique({
+      where: {
+        id: linkId,
+      },
+    });
+
+    if (!row) {
+      throw new NotFoundException(`BOM link '${linkId}' was not found.`);
+    }
+
+    return this.toBomLink(row);
+  }
+
+  async updateBomLink(input: UpdateBomLinkInput): Promise<BomLink> {
+    const [parent, child] = await Promise.all([
+      this.requirePart(input.parentId),
+      this.requirePart(input.childId),
+    ]);
+
+    this.assertBomIsEditable(parent, input.allowReleasedEdit);
+
+    const existingLink = await this.requireBomLink(parent, child, input.linkId);
+    this.assertBomLinkVersion(
+      this.toBomLink(existingLink),
+      input.expectedVersion,
+    );
+
+    const unit = this.resolveLinkUnit(input.unit, existingLink.unit, child);
+    const quantity = input.quantity ?? existingLink.quantity.toNumber();
+    this.assertLinkQuantityIsValid(quantity, unit);
+
+    const effectivity = this.resolveEffectivity(input, existingLink);
+    await this.assertNoOverlappingLink(
+      parent,
+      child,
+      effectivity,
+      existingLink.id,
+    );
+
+    const position = this.resolveBomLinePosition(
+      input,
+      quantity,
+      parent.partNumber,
+      child.id,
+      await this.getBomLines(parent.id, parent.revision),
+      existingLink,
+    );
+
+    const changes = this.diffBomLink(existingLink, {
+      quantity,
+      unit,
+      ...position,
+      ...effectivity,
+    });
+
+    const updatedLink = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.bomLink.updateMany({
+        where: {
+          id: existingLink.id,
+          version: existingLink.version,
+        },
+        data: {
+          quantity,
+          unit,
+          ...position,
+          ...effectivity,
+          version: {
+            increment: 1,
+          },
+        },
+      });
+
+      if (claimed.count === 0) {
+        this.assertBomLinkVersion(
+          await this.getBomLink(existingLink.id),
+          input.expectedVersion,
+        );
+      }
+
+      const link = await tx.bomLink.findUniqueOrThrow({
+        where: {
+          id: existingLink.id,
+        },
+      });
+
+      await this.writeBomLinkUpdatedAudits(tx, parent, child, link, changes);
+
+      return link;
+    });
+
+    return this.toBomLink(updatedLink);
+  }
+
+  async removeBomLink(
+    parentId: string,
+    childId: string,
+    allowReleasedEdit = false,
+    linkId?: string,
+  ): Promise<void> {
+    const [parent, child] = await Promise.all([
+      this.requirePart(parentId),
+      this.requirePart(childId),
+    ]);
+
+    this.assertBomIsEditable(parent, allowReleasedEdit);
+
+    const link = await this.requireBomLink(parent, child, linkId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.deleteBomLinkRow(tx, parent, child, link);
+    });
+  }
+
+  async applyBomLinkBatch(
+    input: BomLinkBatchInput,
+  ): Promise<BomLinkBatchResult> {
+    const { planned, errors } = await this.planBomLinkBatch(
+      input.operations,
+      input.allowReleasedEdit,
+    );
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Batch has ${errors.length} invalid operation(s). Nothing was changed.`,
+        errors,
+      });
+    }
+
+    const applied = await this.commitBomLinkBatch(planned);
+
+    return {
+      operationCount: planned.length,
+      results: applied.map(({ operation, link }) => ({
+        index: operation.index,
+        op: operation.op,
+        link: this.toBomLink(link),
+      })),
+    };
+  }
+
+  async replaceBomChildren(
+    parentId: string,
+    input: ReplaceBomChildrenInput,
+  ): Promise<BomChildrenReplaceResult> {
+    const parent = await this.requirePart(parentId);
+    this.assertBomIsEditable(parent, input.allowReleasedEdit);
+
+    const desiredChildIds = new Set<string>();
+    for (const child of input.children) {
+      if (desiredChildIds.has(child.childId)) {
+        throw new BadRequestException(
+          `Child '${child.childId}' appears more than once.`,
+        );
+      }
+
+      desiredChildIds.add(child.childId);
+    }
+
+    const currentLinks = await this.getBatchBomLinks(parent);
+    const operations: BomLinkBatchOperationInput[] = [];
+    let unchangedCount = 0;
+
+    for (const link of currentLinks) {
+      if (link.row && !desiredChildIds.has(link.childId)) {
+        operations.push({
+          op: 'remove',
+          parentId: parent.id,
+          childId: link.childId,
+          linkId: link.row.id,
+          expectedVersion: link.row.version,
+        });
+      }
+    }
+
+    const now = new Date();
+
+    for (const child of input.children) {
+      const links = currentLinks.filter(
+        (link) => link.row && link.childId === child.childId,
+      );
+      const row = links.find(
+        (link) =>
+          (!link.effectiveFrom || link.effectiveFrom <= now) &&
+          (!link.effectiveTo || link.effectiveTo > now),
+      )?.row;
+
+      if (!row) {
+        const nextStart = links
+          .map((link) => link.effectiveFrom)
+          .filter((effectiveFrom) => effectiveFrom && effectiveFrom > now)
+          .sort((left, right) => Number(left) - Number(right))
+          .at(0);
+
+        operations.push({
+          op: 'create',
+          parentId: parent.id,
+          childId: child.childId,
+          quantity: child.quantity,
+          unit: child.unit,
+          referenceDesignators: child.referenceDesignators,
+          ...(links.length > 0
+            ? { effectiveFrom: now, effectiveTo: nextStart ?? null }
+            : {}),
+        });
+        continue;
+      }
+
+      const unit =
+        child.unit === undefined ? row.unit : this.resolveUnit(child.unit);
+      const referenceDesignators =
+        child.referenceDesignators === undefined
+          ? row.referenceDesignators
+          : this.normalizeReferenceDesignators(child.referenceDesignators);
+      if (
+        row.quantity.toNumber() === child.quantity &&
+        row.unit === unit &&
+        referenceDesignators.join(',') === row.referenceDesignators.join(',')
+      ) {
+        unchangedCount += 1;
+        continue;
+      }
+
+      operations.push({
+        op: 'update',
+        parentId: parent.id,
+        childId: child.childId,
+        linkId: row.id,
+        quantity: child.quantity,
+        unit,
+        referenceDesignators,
+        expectedVersion: row.version,
+      });
+    }
+
+    const { planned, errors } = await this.planBomLinkBatch(
+      operations,
+      input.allowReleasedEdit,
+    );
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Children list has ${errors.length} problem(s). Nothing was changed.`,
+        errors: errors.map((error) => ({
+          childId: operations[error.index].childId,
+          message: error.message,
+        })),
+      });
+    }
+
+    const applied = await this.commitBomLinkBatch(planned);
+    const result: BomChildrenReplaceResult = {
+      parentId: parent.id,
+      revision: parent.revision,
+      isChanged: planned.length > 0,
+      added: [],
+      removed: [],
+      changed: [],
+      unchangedCount,
+    };
+
+    for (const { operation, link } of applied) {
+      const change: BomChildChange = {
+        part: this.toPartSummary(operation.child),
+        linkId: link.id,
+      };
+
+      if (operation.row) {
+        change.fromQuantity = operation.row.quantity.toNumber();
+        change.fromUnit = operation.row.unit;
+      }
+
+      if (operation.op !== 'remove') {
+        change.toQuantity = link.quantity.toNumber();
+        change.toUnit = link.unit;
+      }
+
+      if (operation.op === 'create') {
+        result.added.push(change);
+      } else if (operation.op === 'remove') {
+        result.removed.push(change);
+      } else {
+        result.changed.push(change);
+      }
+    }
+
+    return result;
+  }
+
+  async replaceComponent(
+    partId: string,
+    input: ReplaceComponentInput,
+  ): Promise<ComponentReplaceResult> {
+    const [part, replacement] = await Promise.all([
+      this.requirePart(partId),
+      this.requirePart(input.replacementPartId),
+    ]);
+
+    if (part.id === replacement.id) {
+      throw new BadRequestException(
+        'Replacement part must differ from the part being replaced.',
+      );
+    }
+
+    const usedBy = await this.getParentParts(part.id);
+    let parentIds = usedBy.map((parent) => parent.id);
+
+    if (input.parentIds) {
+      for (const parentId of input.parentIds) {
+        if (!parentIds.includes(parentId)) {
+          throw new BadRequestException(
+            `Part '${parentId}' does not use ${part.partNumber} in its current revision.`,
+          );
+        }
+      }
+
+      parentIds = parentIds.filter((parentId) =>
+        input.parentIds?.includes(parentId),
+      );
+    }
+
+    if (parentIds.length === 0) {
+      throw new BadRequestException(
+        `Part ${part.partNumber} is not used by any assembly.`,
+      );
+    }
+
+    const operations: BomLinkBatchOperationInput[] = [];
+    const parentErrors: { parentId: string; message: string }[] = [];
+    const auditMetadata = {
+      replacedPartId: part.id,
+      replacementPartId: replacement.id,
+    };
+
+    for (const parentId of parentIds) {
+      const parent = await this.requirePart(parentId);
+      const lines = await this.getBatchBomLinks(parent);
+
+      if (lines.some((line) => line.row && line.childId === replacement.id)) {
+        parentErrors.push({
+          parentId: parent.id,
+          message: `${parent.partNumber} already uses ${replacement.partNumber}. Change or remove that line before replacing ${part.partNumber}.`,
+        });
+        continue;
+      }
+
+      for (const line of lines) {
+        if (!line.row || line.childId !== part.id) {
+          continue;
+        }
+
+        operations.push(
+          {
+            op: 'remove',
+            parentId: parent.id,
+            childId: part.id,
+            linkId: line.row.id,
+            expectedVersion: line.row.version,
+            auditMetadata,
+          },
+          {
+            op: 'create',
+            parentId: parent.id,
+            childId: replacement.id,
+            findNumber: line.row.findNumber,
+            quantity: line.row.quantity
+              .times(input.quantityMultiplier)
+              .toNumber(),
+            unit: line.row.unit,
+            referenceDesignators: line.row.referenceDesignators,
+            effectiveFrom: line.row.effectiveFrom,
+            effectiveTo: line.row.effectiveTo,
+            auditMetadata,
+            replacesLinkId: line.row.id,
+          },
+        );
+      }
+    }
+
+    const { planned, errors } = await this.planBomLinkBatch(
+      operations,
+      input.allowReleasedEdit,
+    );
+
+    if (parentErrors.length > 0 || errors.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Replacement fails for ${parentErrors.length + errors.length} BOM line(s). Nothing was changed.`,
+        errors: [
+          ...parentErrors,
+          ...errors.map((error) => ({
+            parentId: operations[error.index].parentId,
+            message: error.message,
+          })),
+        ],
+      });
+    }
+
+    const applied = await this.commitBomLinkBatch(planned);
+    const removedLinks = new Map(
+      applied
+        .filter(({ operation }) => operation.op === 'remove')
+        .map((result) => [result.link.id, result]),
+    );
+    const parents = new Map<string, ComponentReplaceParent>();
+    let linkCount = 0;
+
+    for (const { operation, link } of applied) {
+      const removed = operation.replacesLinkId
+        ? removedLinks.get(operation.replacesLinkId)
+        : undefined;
+      if (operation.op !== 'create' || !removed) {
+        continue;
+      }
+
+      let report = parents.get(operation.parent.id);
+      if (!report) {
+        report = {
+          parent: this.toPartSummary(operation.parent),
+          revision: operation.parent.revision,
+          links: [],
+        };
+        parents.set(operation.parent.id, report);
+      }
+
+      report.links.push({
+        fromLinkId: removed.link.id,
+        linkId: link.id,
+        findNumber: link.findNumber,
+        fromQuantity: removed.link.quantity.toNumber(),
+        toQuantity: link.quantity.toNumber(),
+        unit: link.unit,
+        removedAlternates: removed.removedAlternates.map((alternate) =>
+          this.toBomAlternate(alternate),
+        ),
+      });
+      linkCount += 1;
+    }
+
+    return {
+      part: this.toPartSummary(part),
+      replacement: this.toPartSummary(replacement),
+      quantityMultiplier: input.quantityMultiplier,
+      parentCount: parents.size,
+      linkCount,
+      parents: [...parents.values()],
+    };
+  }
+
+  private async planBomLinkBatch(
+    operations: BomLinkBatchOperationInput[],
+    allowReleasedEdit?: boolean,
+  ): Promise<BomLinkBatchPlan> {
+    const errors: BomLinkBatchError[] = [];
+    const planned: PlannedBatchOperation[] = [];
+    const parts = new Map<string, Part>();
+    const batchLines = new Map<string, BatchBomLink[]>();
+
+    const loadPart = async (partId: string) => {
+      const part = parts.get(partId) ?? (await this.requirePart(partId));
+      parts.set(partId, part);
+      return part;
+    };
+
+    for (const [index, operation] of operations.entries()) {
+      await this.collectBatchOperationError(errors, index, async () => {
+        const parent = await loadPart(operation.parentId);
+        const child = await loadPart(operation.childId);
+
+        this.assertBomIsEditable(parent, allowReleasedEdit);
+
+        let lines = batchLines.get(parent.id);
+        if (!lines) {
+          lines = await this.getBatchBomLinks(parent);
+          batchLines.set(parent.id, lines);
+        }
+
+        planned.push({
+          ...this.planBatchOperation(index, operation, parent, child, lines),
+          auditMetadata: operation.auditMetadata,
+          replacesLinkId: operation.replacesLinkId,
+        });
+      });
+    }
+
+    const { pendingChildIds, removedLinkIds } =
+      this.getPendingBatchChanges(planned);
+
+    for (const operation of planned) {
+      if (operation.op !== 'create') {
+        continue;
+      }
+
+      await this.collectBatchOperationError(
+        errors,
+        operation.index,
+        async () => {
+          if (
+            await this.isReachable(
+              operation.child.id,
+              operation.parent.id,
+              pendingChildIds,
+              removedLinkIds,
+            )
+          ) {
+            throw new BadRequestException(
+              'BOM link creation failed because it would introduce a cycle.',
+            );
+          }
+        },
+      );
+    }
+
+    return {
+      planned,
+      errors: errors.sort((left, right) => left.index - right.index),
+    };
+  }
+
+  private async commitBomLinkBatch(
+    planned: PlannedBatchOperation[],
+  ): Promise<AppliedBatchOperation[]> {
+    if (planned.length === 0) {
+      return [];
+    }
+
+    return this.prisma
+      .$transaction(
+        async (tx) => {
+          const { pendingChildIds, removedLinkIds } =
+            this.getPendingBatchChanges(planned);
+
+          for (const operation of planned) {
+            if (
+              operation.op === 'create' &&
+              (await this.isReachable(
+                operation.child.id,
+                operation.parent.id,
+                pendingChildIds,
+                removedLinkIds,
+                tx,
+              ))
+            ) {
+              throw new ConflictException({
+                statusCode: 409,
+                error: 'Conflict',
+                message: `Operation ${operation.index} would now introduce a cycle because the BOM changed while the batch was running. Nothing was changed.`,
+              });
+            }
+          }
+
+          const applied: AppliedBatchOperation[] = [];
+
+          for (const operation of planned) {
+            applied.push(await this.applyBatchOperation(tx, operation));
+          }
+
+          return applied;
+        },
+        {
+          isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        },
+      )
+      .catch((error: unknown) =>
+        this.rethrowConcurrentChangeError(
+          error,
+          'BOM changed while the batch was running. Nothing was changed.',
+        ),
+      );
+  }
+
+  private getPendingBatchChanges(planned: PlannedBatchOperation[]): {
+    pendingChildIds: Map<string, string[]>;
+    removedLinkIds: Set<string>;
+  } {
+    const pendingChildIds = new Map<string, string[]>();
+    const removedLinkIds = new Set<string>();
+
+    for (const operation of planned) {
+      if (operation.op === 'create') {
+        pendingChildIds.set(operation.parent.id, [
+          ...(pendingChildIds.get(operation.parent.id) ?? []),
+          operation.child.id,
+        ]);
+      } else if (operation.op === 'remove' && operation.row) {
+        removedLinkIds.add(operation.row.id);
+      }
+    }
+
+    return { pendingChildIds, removedLinkIds };
+  }
+
+  async addPartAlternate(
+    partId: string,
+    input: AddAlternateInput,
+  ): Promise<BomAlternate> {
+    const [part, alternatePart] = await Promise.all([
+      this.requirePart(partId),
+      this.requirePart(input.alternatePartId),
+    ]);
+
+    const parentRows = await this.prisma.bomLink.findMany({
+      where: {
+        childId: part.id,
+      },
+      distinct: ['parentId'],
+      select: {
+        parentId: true,
+      },
+    });
+
+    return this.createAlternate(
+      part,
+      alternatePart,
+      input.rank,
+      parentRows.map((row) => row.parentId),
+    );
+  }
+
+  async removePartAlternate(
+    partId: string,
+    alternatePartId: string,
+  ): Promise<void> {
+    const part = await this.requirePart(partId);
+    await this.deleteAlternate(part, alternatePartId);
+  }
+
+  async addBomLinkAlternate(
+    input: AddBomLinkAlternateInput,
+  ): Promise<BomAlternate> {
+    const [parent, child, alternatePart] = await Promise.all([
+      this.requirePart(input.parentId),
+      this.requirePart(input.childId),
+      this.requirePart(input.alternatePartId),
+    ]);
+
+    this.assertBomIsEditable(parent, input.allowReleasedEdit);
+
+    const link = await this.requireBomLink(parent, child, input.linkId);
+
+    return this.createAlternate(child, alternatePart, input.rank, [parent.id], {
+      linkId: link.id,
+      parent,
+    });
+  }
+
+  async removeBomLinkAlternate(
+    parentId: string,
+    childId: string,
+    alternatePartId: string,
+    allowReleasedEdit = false,
+    linkId?: string,
+  ): Promise<void> {
+    const [parent, child] = await Promise.all([
+      this.requirePart(parentId),
+      this.requirePart(childId),
+    ]);
+
+    this.assertBomIsEditable(parent, allowReleasedEdit);
+
+    const link = await this.requireBomLink(parent, child, linkId);
+
+    await this.deleteAlternate(child, alternatePartId, {
+      linkId: link.id,
+      parent,
+    });
+  }
+
+  async listAttributeDefinitions(): Promise<AttributeDefinition[]> {
+    const rows = await this.getAttributeDefinitionRows();
+
+    return rows.map((row) => this.toAttributeDefinition(row));
+  }
+
+  async createAttributeDefinition(
+    input: CreateAttributeDefinitionInput,
+  ): Promise<AttributeDefinition> {
+    const key = input.key.trim();
+    if (!ATTRIBUTE_KEY_PATTERN.test(key)) {
+      throw new BadRequestException(
+        'Attribute key must start with a lowercase letter and contain only lowercase letters, digits and underscores (at most 64 characters).',
+      );
+    }
+
+    const existing = await this.prisma.attributeDefinition.findUnique({
+      where: {
+        key,
+      },
+    });
+    if (existing) {
+      throw new ConflictException(`Attribute '${key}' already exists.`);
+    }
+
+    const shape = this.resolveAttributeShape(
+      input.type,
+      input.unit,
+      input.options ?? [],
+    );
+
+    const created = await this.prisma.attributeDefinition.create({
+      data: {
+        key,
+        label: input.label?.trim() || key,
+        type: input.type,
+        unit: shape.unit,
+        options: shape.options,
+        isRequired: input.isRequired ?? false,
+      },
+    });
+
+    return this.toAttributeDefinition(created);
+  }
+
+  async updateAttributeDefinition(
+    key: string,
+    input: UpdateAttributeDefinitionInput,
+  ): Promise<AttributeDefinition> {
+    const definition = await this.requireAttributeDefinition(key);
+
+    const label =
+      input.label !== undefined ? input.label.trim() : definition.label;
+    if (!label) {
+      throw new BadRequestException('Attribute label cannot be empty.');
+    }
+
+    const shape = this.resolveAttributeShape(
+      definition.type,
+      input.unit === undefined ? definition.unit : input.unit,
+      input.options ?? definition.options,
+    );
+
+    for (const option of definition.options) {
+      if (shape.options.includes(option)) {
+        continue;
+      }
+
+      const usageCount = await this.prisma.part.count({
+        where: {
+          attributes: {
+            path: [key],
+            equals: option,
+          },
+        },
+      });
+      if (usageCount > 0) {
+        throw new ConflictException(
+          `Option '${option}' of attribute '${key}' is used by ${usageCount} part(s).`,
+        );
+      }
+    }
+
+    if (shape.unit !== (definition.unit ?? null)) {
+      const usageCount = await this.countPartsWithAttribute(key);
+      if (usageCount > 0) {
+        throw new ConflictException(
+          `Unit of attribute '${key}' cannot change because ${usageCount} part(s) have a value for it.`,
+        );
+      }
+    }
+
+    if (input.isRequired && !definition.isRequired) {
+      const missingCount = await this.countPartsWithAttribute(key, false);
+      if (missingCount > 0) {
+        throw new ConflictException(
+          `Attribute '${key}' cannot become required because ${missingCount} part(s) have no value for it.`,
+        );
+      }
+    }
+
+    const updated = await this.prisma.attributeDefinition.update({
+      where: {
+        key,
+      },
+      data: {
+        label,
+        unit: shape.unit,
+        options: shape.options,
+        isRequired: input.isRequired ?? definition.isRequired,
+      },
+    });
+
+    return this.toAttributeDefinition(updated);
+  }
+
+  async deleteAttributeDefinition(key: string): Promise<AttributeDefinition> {
+    const definition = await this.requireAttributeDefinition(key);
+
+    const requiringCategory = await this.prisma.category.findFirst({
+      where: {
+        requiredAttributes: {
+          has: key,
+        },
+      },
+    });
+    if (requiringCategory) {
+      throw new ConflictException(
+        `Attribute '${key}' is required by category ${requiringCategory.name}.`,
+      );
+    }
+
+    const usageCount = await this.countPartsWithAttribute(key);
+    if (usageCount > 0) {
+      throw new ConflictException(
+        `Attribute '${key}' is still set on ${usageCount} part(s).`,
+      );
+    }
+
+    await this.prisma.attributeDefinition.delete({
+      where: {
+        key,
+      },
+    });
+
+    return this.toAttributeDefinition(definition);
+  }
+
+  private async countPartsWithAttribute(
+    key: string,
+    isSet = true,
+  ): Promise<number> {
+    const [usage] = await this.prisma.$queryRaw<CountRow[]>`
+      SELECT COUNT(*) AS total
+      FROM "parts"
+      WHERE jsonb_exists("attributes", ${key}) = ${isSet}
+    `;
+
+    return Number(usage?.total ?? 0);
+  }
+
+  async getCategoryTree(): Promise<CategoryTreeNode[]> {
+    const [categories, partCounts] = await Promise.all([
+      this.getCategoryRows(),
+      this.getCategoryPartCounts(),
+    ]);
+
+    return [...categories.values()]
+      .filter((row) => row.parentId === null)
+      .map((row) => this.toCategoryTreeNode(row, categories, partCounts));
+  }
+
+  async getCategory(categoryId: string): Promise<CategoryTreeNode> {
+    const [categories, partCounts] = await Promise.all([
+      this.getCategoryRows(),
+      this.getCategoryPartCounts(),
+    ]);
+
+    return this.toCategoryTreeNode(
+      this.requireCategory(categories, categoryId),
+      categories,
+      partCounts,
+    );
+  }
+
+  async createCategory(input: CreateCategoryInput): Promise<Category> {
+    const categories = await this.getCategoryRows();
+
+    const name = input.name.trim();
+    if (!name) {
+      throw new BadRequestException('Category name is required.');
+    }
+
+    const parentId = input.parentId ?? null;
+    if (parentId) {
+      this.requireCategory(categories, parentId);
+    }
+
+    this.assertCategoryNameIsAvailable(categories, name, parentId);
+
+    const created = await this.prisma.category.create({
+      data: {
+        id: this.allocateCategoryId(),
+        name,
+        parentId,
+        partNumberPrefix: this.normalizePartNumberPrefix(
+          input.partNumberPrefix,
+        ),
+        requiredAttributes: await this.resolveCategoryRequiredAttributes(
+          input.requiredAttributes ?? [],
+        ),
+      },
+    });
+    categories.set(created.id, created);
+
+    return this.toCategory(created, categories, new Map());
+  }
+
+  async updateCategory(
+    categoryId: string,
+    input: UpdateCategoryInput,
+  ): Promise<Category> {
+    const categories = await this.getCategoryRows();
+    const category = this.requireCategory(categories, categoryId);
+
+    const name = input.name !== undefined ? input.name.trim() : category.name;
+    if (!name) {
+      throw new BadRequestException('Category name cannot be empty.');
+    }
+
+    const parentId =
+      input.parentId === undefined ? category.parentId : input.parentId;
+    if (parentId) {
+      this.requireCategory(categories, parentId);
+
+      if (
+        this.getCategorySubtreeIds(categories, categoryId).includes(parentId)
+      ) {
+        throw new BadRequestException(
+          'A category cannot be moved below itself.',
+        );
+      }
+    }
+
+    if (name !== category.name || parentId !== category.parentId) {
+      this.assertCategoryNameIsAvailable(
+        categories,
+        name,
+        parentId,
+        categoryId,
+      );
+    }
+
+    const next: PrismaCategoryRecord = {
+      ...category,
+      name,
+      parentId,
+      partNumberPrefix:
+        input.partNumberPrefix === undefined
+          ? category.partNumberPrefix
+          : this.normalizePartNumberPrefix(input.partNumberPrefix),
+      requiredAttributes:
+        input.requiredAttributes === undefined
+          ? category.requiredAttributes
+          : await this.resolveCategoryRequiredAttributes(
+              input.requiredAttributes,
+            ),
+    };
+    categories.set(categoryId, next);
+
+    await this.assertCategoryPartsFitRules(categories, categoryId);
+
+    const updated = await this.prisma.category.update({
+      where: {
+        id: categoryId,
+      },
+      data: {
+        name: next.name,
+        parentId: next.parentId,
+        partNumberPrefix: next.partNumberPrefix,
+        requiredAttributes: next.requiredAttributes,
+      },
+    });
+    categories.set(categoryId, updated);
+
+    return this.toCategory(
+      updated,
+      categories,
+      await this.getCategoryPartCounts(),
+    );
+  }
+
+  async deleteCategory(categoryId: string): Promise<Category> {
+    const [categories, partCounts] = await Promise.all([
+      this.getCategoryRows(),
+      this.getCategoryPartCounts(),
+    ]);
+    const category = this.requireCategory(categories, categoryId);
+
+    if ([...categories.values()].some((row) => row.parentId === categoryId)) {
+      throw new ConflictException(
+        `Category ${category.name} still has subcategories.`,
+      );
+    }
+
+    const partCount = partCounts.get(categoryId) ?? 0;
+    if (partCount > 0) {
+      throw new ConflictException(
+        `Category ${category.name} still has ${partCount} part(s).`,
+      );
+    }
+
+    await this.prisma.category.delete({
+      where: {
+        id: categoryId,
+      },
+    });
+
+    return this.toCategory(category, categories, partCounts);
+  }
+
+  async importBom(input: BomImportInput): Promise<BomImportResult> {
+    const attributeDefinitions = await this.getAttributeDefinitionRows();
+    const errors: BomImportRowError[] = [];
+    const partRefs = new Map<string, ImportPartRef>();
+    const plannedParts: PlannedImportPart[] = [];
+    const seenPartNumbers = new Set<string>();
+
+    for (const row of input.parts) {
+      await this.collectImportRowError(errors, 'parts', row.row, async () => {
+        const partNumber = row.partNumber.trim().toUpperCase();
+        if (!partNumber) {
+          throw new BadRequestException('Part number is required.');
+        }
+
+        if (seenPartNumbers.has(partNumber)) {
+          throw new BadRequestException(
+            `Part number '${partNumber}' appears more than once in the import.`,
+          );
+        }
+
+        seenPartNumbers.add(partNumber);
+
+        const name = row.name.trim();
+        if (!name) {
+          throw new BadRequestException('Part name is required.');
+        }
+
+        await this.assertPartNumberIsAvailable(partNumber);
+
+        const cost = this.resolvePartCost(row.unitCost, row.currency);
+        const unit =
+          row.unit === undefined ? DEFAULT_UNIT : this.resolveUnit(row.unit);
+        const attributes = this.resolvePartAttributes(
+          this.parseImportAttributes(row.attributes, attributeDefinitions),
+          attributeDefinitions,
+        );
+        const ref: ImportPartRef = {
+          key: `${IMPORT_PART_KEY_PREFIX}${partNumber}`,
+          partNumber,
+          status: 'DRAFT',
+          revision: INITIAL_REVISION,
+          unit,
+          isNew: true,
+        };
+
+        partRefs.set(partNumber, ref);
+        plannedParts.push({
+          ...cost,
+          row: row.row,
+          ref,
+          name,
+          description: row.description?.trim() ?? '',
+          attributes,
+        });
+      });
+    }
+
+    const existingPartNumbers = input.links
+      .flatMap((row) => [row.parentPartNumber, row.childPartNumber])
+      .map((partNumber) => partNumber.trim().toUpperCase())
+      .filter((partNumber) => partNumber && !partRefs.has(partNumber));
+    const existingParts = await this.prisma.part.findMany({
+      where: {
+        partNumber: {
+          in: [...new Set(existingPartNumbers)],
+        },
+      },
+    });
+
+    for (const row of existingParts) {
+      partRefs.set(row.partNumber, {
+        key: row.id,
+        partNumber: row.partNumber,
+        status: row.status,
+        revision: row.currentRevision,
+        unit: row.unit,
+        isNew: false,
+      });
+    }
+
+    const plannedLinks: PlannedImportLink[] = [];
+    const plannedLinkKeys = new Set<string>();
+    const pendingChildIds = new Map<string, string[]>();
+    const importLines = new Map<string, BomLine[]>();
+
+    for (const row of input.links) {
+      await this.collectImportRowError(errors, 'links', row.row, async () => {
+        const parent = this.resolveImportPartRef(
+          partRefs,
+          row.parentPartNumber,
+        );
+        const child = this.resolveImportPartRef(partRefs, row.childPartNumber);
+
+        if (parent.key === child.key) {
+          throw new BadRequestException(
+            'A part cannot be linked to itself in BOM.',
+          );
+        }
+
+        const unit = this.resolveLinkUnit(row.unit, child.unit, child);
+        this.assertLinkQuantityIsValid(row.quantity, unit);
+
+        if (child.status === 'OBSOLETE') {
+          throw new BadRequestException(
+            `Obsolete part ${child.partNumber} cannot be added to a BOM.`,
+          );
+        }
+
+        this.assertBomIsEditable(parent, input.allowReleasedEdit);
+
+        const linkKey = `${parent.key}>${child.key}`;
+        const existingLink =
+          parent.isNew || child.isNew
+            ? null
+            : await this.prisma.bomLink.findFirst({
+                where: {
+                  parentId: parent.key,
+                  revision: parent.revision,
+                  childId: child.key,
+                },
+                select: {
+                  id: true,
+                },
+              });
+
+        if (existingLink || plannedLinkKeys.has(linkKey)) {
+          throw new BadRequestException(
+            `BOM link already exists between ${parent.partNumber} and ${child.partNumber}.`,
+          );
+        }
+
+        let parentLines = importLines.get(parent.key);
+        if (!parentLines) {
+          parentLines = parent.isNew
+            ? []
+            : await this.getBomLines(parent.key, parent.revision);
+          importLines.set(parent.key, parentLines);
+        }
+
+        const position = this.resolveBomLinePosition(
+          row,
+          row.quantity,
+          parent.partNumber,
+          child.key,
+          parentLines,
+        );
+
+        if (await this.isReachable(child.key, parent.key, pendingChildIds)) {
+          throw new BadRequestException(
+            'BOM link creation failed because it would introduce a cycle.',
+          );
+        }
+
+        parentLines.push({
+          ...position,
+          childId: child.key,
+          partNumber: child.partNumber,
+        });
+        plannedLinkKeys.add(linkKey);
+        pendingChildIds.set(parent.key, [
+          ...(pendingChildIds.get(parent.key) ?? []),
+          child.key,
+        ]);
+        plannedLinks.push({
+          ...position,
+          row: row.row,
+          parent,
+          child,
+          quantity: row.quantity,
+          unit,
+        });
+      });
+    }
+
+    const result: BomImportResult = {
+      dryRun: input.dryRun,
+      isValid: errors.length === 0,
+      partCount: plannedParts.length,
+      linkCount: plannedLinks.length,
+      errorCount: errors.length,
+      errors,
+    };
+
+    if (input.dryRun) {
+      return result;
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Import has ${errors.length} invalid row(s). Nothing was imported.`,
+        errors,
+      });
+    }
+
+    const imported = await this.prisma
+      .$transaction(async (tx) => {
+        const conflicts = await this.findImportConflicts(
+          tx,
+          plannedParts,
+          plannedLinks,
+          pendingChildIds,
+        );
+
+        if (conflicts.length > 0) {
+          throw new ConflictException({
+            statusCode: 409,
+            error: 'Conflict',
+            message: `Import conflicts with ${conflicts.length} change(s) made while it was running. Nothing was imported.`,
+            errors: conflicts,
+          });
+        }
+
+        return this.commitImport(tx, plannedParts, plannedLinks);
+      })
+      .catch((error: unknown) =>
+        this.rethrowConcurrentChangeError(
+          error,
+          'Import conflicts with a change made while it was running. Nothing was imported.',
+        ),
+      );
+
+    return {
+      ...result,
+      parts: imported.parts.map((row) => this.toPart(row)),
+      links: imported.links.map((row) => this.toBomLink(row)),
+    };
+  }
+
+  private async findImportConflicts(
+    tx: TxClient,
+    plannedParts: PlannedImportPart[],
+    plannedLinks: PlannedImportLink[],
+    pendingChildIds: Map<string, string[]>,
+  ): Promise<BomImportRowError[]> {
+    const conflicts: BomImportRowError[] = [];
+
+    const takenPartNumbers = await tx.part.findMany({
+      where: {
+        partNumber: {
+          in: plannedParts.map((planned) => planned.ref.partNumber),
+        },
+      },
+      select: {
+        partNumber: true,
+      },
+    });
+    for (const taken of takenPartNumbers) {
+      const planned = plannedParts.find(
+        (candidate) => candidate.ref.partNumber === taken.partNumber,
+      );
+      if (planned) {
+        conflicts.push({
+          file: 'parts',
+          row: planned.row,
+          message: `Part number '${taken.partNumber}' already exists.`,
+        });
+      }
+    }
+
+    const existingIds = new Set(
+      plannedLinks
+        .flatMap((planned) => [planned.parent, planned.child])
+        .filter((ref) => !ref.isNew)
+        .map((ref) => ref.key),
+    );
+    const currentParts = new Map(
+      (
+        await tx.part.findMany({
+          where: {
+            id: {
+              in: [...existingIds],
+            },
+          },
+          select: {
+            id: true,
+            status: true,
+            currentRevision: true,
+          },
+        })
+      ).map((row) => [row.id, row]),
+    );
+
+    for (const planned of plannedLinks) {
+      const changedRef = [planned.parent, planned.child].find((ref) => {
+        if (ref.isNew) {
+          return false;
+        }
+
+        const current = currentParts.get(ref.key);
+        return (
+          !current ||
+          current.status !== ref.status ||
+          current.currentRevision !== ref.revision
+        );
+      });
+
+      if (changedRef) {
+        conflicts.push({
+          file: 'links',
+          row: planned.row,
+          message: `Part ${changedRef.partNumber} was changed or deleted while the import was running.`,
+        });
+        continue;
+      }
+
+      if (planned.parent.isNew) {
+        continue;
+      }
+
+      const takenLine = await tx.bomLink.findFirst({
+        where: {
+          parentId: planned.parent.key,
+          revision: planned.parent.revision,
+          OR: [
+            {
+              childId: planned.child.key,
+            },
+            {
+              findNumber: planned.findNumber,
+            },
+          ],
+        },
+        select: {
+          id: true,
+        },
+      });
+
+      if (takenLine) {
+        conflicts.push({
+          file: 'links',
+          row: planned.row,
+          message: `BOM of ${planned.parent.partNumber} was changed while the import was running.`,
+        });
+        continue;
+      }
+
+      if (
+        !planned.child.isNew &&
+        (await this.isReachable(
+          planned.child.key,
+          planned.parent.key,
+          pendingChildIds,
+          undefined,
+          tx,
+        ))
+      ) {
+        conflicts.push({
+          file: 'links',
+          row: planned.row,
+          message:
+            'BOM link creation failed because it would introduce a cycle.',
+        });
+      }
+    }
+
+    return conflicts.sort((left, right) =>
+      left.file === right.file
+        ? left.row - right.row
+        : left.file.localeCompare(right.file),
+    );
+  }
+
+  private async commitImport(
+    tx: TxClient,
+    plannedParts: PlannedImportPart[],
+    plannedLinks: PlannedImportLink[],
+  ): Promise<{ parts: PrismaPartRecord[]; links: PrismaBomLinkRecord[] }> {
+    const partIds = new Map<string, string>();
+    const parts: PrismaPartRecord[] = [];
+
+    for (const planned of plannedParts) {
+      const part = await tx.part.create({
+        data: {
+          id: this.allocatePartId(),
+          partNumber: planned.ref.partNumber,
+          name: planned.name,
+          description: planned.description,
+          unitCost: planned.unitCost,
+          currency: planned.currency,
+          unit: planned.ref.unit,
+          attributes: planned.attributes,
+          currentRevision: INITIAL_REVISION,
+          revisions: {
+            create: {
+              code: INITIAL_REVISION,
+              sequence: 1,
+              name: planned.name,
+              description: planned.description,
+            },
+          },
+        },
+      });
+
+      this.updatePartNumberSequence(part.partNumber);
+      partIds.set(planned.ref.key, part.id);
+
+      await this.writeAudit(
+        tx,
+        part.id,
+        'PART_CREATED',
+        `Part ${part.partNumber} was created by import.`,
+        {
+          name: part.name,
+        },
+      );
+
+      parts.push(part);
+    }
+
+    const links: PrismaBomLinkRecord[] = [];
+
+    for (const planned of plannedLinks) {
+      const parentId = partIds.get(planned.parent.key) ?? planned.parent.key;
+      const childId = partIds.get(planned.child.key) ?? planned.child.key;
+
+      const link = await tx.bomLink.create({
+        data: {
+          id: this.allocateBomLinkId(),
+          parentId,
+          revision: planned.parent.revision,
+          childId,
+          findNumber: planned.findNumber,
+          quantity: planned.quantity,
+          unit: planned.unit,
+          referenceDesignators: planned.referenceDesignators,
+        },
+      });
+
+      await this.writeBomLinkCreatedAudits(
+        tx,
+        {
+          id: parentId,
+          partNumber: planned.parent.partNumber,
+          revision: planned.parent.revision,
+        },
+        { id: childId, partNumber: planned.child.partNumber },
+        link,
+      );
+
+      links.push(link);
+    }
+
+    return { parts, links };
+  }
+
+  async getBomTree(
+    rootPartId: string,
+    depth = 1,
+    nodeLimit = this.maxExpandNodeLimit,
+    revision?: string,
+    asOf?: Date,
+    effectiveAtInput?: Date,
+  ): Promise<BomTreeResponse> {
+    let rootPart = await this.requirePart(rootPartId);
+    const effectiveAt = effectiveAtInput ?? asOf ?? new Date();
+
+    this.assertExpandLimits(depth, nodeLimit);
+
+    if (asOf && revision) {
+      throw new BadRequestException('asOf cannot be combined with revision.');
+    }
+
+    const history = asOf ? this.createPartHistory(asOf) : undefined;
+    if (history && asOf) {
+      rootPart = (await this.requirePartSnapshot(history, rootPart, asOf)).part;
+    }
+
+    const rootRevision = await this.resolveRevision(rootPart, revision);
+    const useReleasedRevisions =
+      revision?.toLowerCase() === LATEST_RELEASED_REVISION;
+
+    let nodeCount = 0;
+    const partCache = new Map<string, Part>([[rootPartId, rootPart]]);
+    const childLinksCache = new Map<string, BomLink[]>();
+
+    const getPart = async (partId: string): Promise<Part> => {
+      const cachedPart = partCache.get(partId);
+      if (cachedPart) {
+        return cachedPart;
+      }
+
+      const part = history
+        ? (await history.load(partId))?.part
+        : await this.requirePart(partId);
+      if (!part) {
+        throw new NotFoundException(`Part '${partId}' was not found.`);
+      }
+
+      partCache.set(partId, part);
+      return part;
+    };
+
+    const getChildLinks = async (
+      partId: string,
+      revisionCode: string,
+    ): Promise<BomLink[]> => {
+      const cacheKey = `${partId}@${revisionCode}`;
+      const cachedLinks = childLinksCache.get(cacheKey);
+      if (cachedLinks) {
+        return cachedLinks;
+      }
+
+      const links = history
+        ? await this.getChildLinksFromHistory(
+            history,
+            partId,
+            revisionCode,
+            effectiveAt,
+          )
+        : await this.getChildLinks(partId, revisionCode, effectiveAt);
+      childLinksCache.set(cacheKey, links);
+      return links;
+    };
+
+    const getChildRevision = async (part: Part): Promise<string> => {
+      if (!useReleasedRevisions) {
+        return part.revision;
+      }
+
+      return (await this.findLatestReleasedRevision(part.id)) ?? part.revision;
+    };
+
+    const buildNode = async (
+      partId: string,
+      revisionCode: string,
+      currentDepth: number,
+      linkFromParent: BomLink | undefined,
+      path: Set<string>,
+    ): Promise<BomTreeNode> => {
+      if (nodeCount >= nodeLimit) {
+        throw new BadRequestException(
+          `BOM expansion exceeded node limit of ${nodeLimit}. Reduce depth or load incrementally.`,
+        );
+      }
+
+      nodeCount += 1;
+
+      const part = await getPart(partId);
+      const childLinks = await getChildLinks(partId, revisionCode);
+      const children: BomTreeNode[] = [];
+
+      if (currentDepth < depth) {
+        const alternates = history
+          ? new Map<string, BomAlternate[]>()
+          : await this.getLinkAlternates(childLinks);
+
+        for (const link of childLinks) {
+          if (path.has(link.childId)) {
+            continue;
+          }
+
+          const nextPath = new Set(path);
+          nextPath.add(link.childId);
+
+          const childPart = await getPart(link.childId);
+          const childNode = await buildNode(
+            link.childId,
+            await getChildRevision(childPart),
+            currentDepth + 1,
+            link,
+            nextPath,
+          );
+
+          childNode.alternates = alternates.get(link.id) ?? [];
+          children.push(childNode);
+        }
+      }
+
+      const node: BomTreeNode = {
+        part: this.toPartSummary(part),
+        revision: revisionCode,
+        hasChildren: childLinks.length > 0,
+        children,
+      };
+
+      if (linkFromParent) {
+        node.findNumber = linkFromParent.findNumber;
+        node.quantityFromParent = linkFromParent.quantity;
+        node.unitFromParent = linkFromParent.unit;
+        node.referenceDesignators = linkFromParent.referenceDesignators;
+      }
+
+      return node;
+    };
+
+    const tree = await buildNode(
+      rootPartId,
+      rootRevision,
+      0,
+      undefined,
+      new Set([rootPartId]),
+    );
+
+    const response: BomTreeResponse = {
+      rootPartId,
+      revision: rootRevision,
+      effectiveAt: effectiveAt.toISOString(),
+      requestedDepth: depth,
+      nodeLimit,
+      nodeCount,
+      tree,
+    };
+
+    if (history && asOf) {
+      response.asOf = asOf.toISOString();
+      response.isHistoryComplete = history.isComplete();
+    }
+
+    return response;
+  }
+
+  async getWhereUsedTree(
+    partId: string,
+    depth = 1,
+    nodeLimit = this.maxExpandNodeLimit,
+  ): Promise<WhereUsedResponse> {
+    const part = await this.requirePart(partId);
+    const effectiveAt = new Date();
+
+    this.assertExpandLimits(depth, nodeLimit);
+
+    let nodeCount = 0;
+    const parentUsagesCache = new Map<string, ParentPartUsage[]>();
+    const topLevelParts = new Map<string, PartSummary>();
+
+    const getParentUsages = async (
+      childId: string,
+    ): Promise<ParentPartUsage[]> => {
+      const cachedUsages = parentUsagesCache.get(childId);
+      if (cachedUsages) {
+        return cachedUsages;
+      }
+
+      const usages = await this.getParentUsages(childId, effectiveAt);
+      parentUsagesCache.set(childId, usages);
+      return usages;
+    };
+
+    const buildNode = async (
+      nodePart: PartSummary,
+      currentDepth: number,
+      usage: ParentPartUsage | undefined,
+      path: Set<string>,
+    ): Promise<WhereUsedNode> => {
+      if (nodeCount >= nodeLimit) {
+        throw new BadRequestException(
+          `Where-used expansion exceeded node limit of ${nodeLimit}. Reduce depth or load incrementally.`,
+        );
+      }
+
+      nodeCount += 1;
+
+      const parentUsages = await getParentUsages(nodePart.id);
+      const parents: WhereUsedNode[] = [];
+
+      if (parentUsages.length === 0 && currentDepth > 0) {
+        topLevelParts.set(nodePart.id, nodePart);
+      }
+
+      if (currentDepth < depth) {
+        for (const parentUsage of parentUsages) {
+          if (path.has(parentUsage.parent.id)) {
+            continue;
+          }
+
+          const nextPath = new Set(path);
+          nextPath.add(parentUsage.parent.id);
+
+          parents.push(
+            await buildNode(
+              parentUsage.parent,
+              currentDepth + 1,
+              parentUsage,
+              nextPath,
+            ),
+          );
+        }
+      }
+
+      const node: WhereUsedNode = {
+        part: nodePart,
+        isTopLevel: parentUsages.length === 0,
+        parents,
+      };
+
+      if (usage) {
+        node.quantityUsed = usage.quantity;
+        node.unitUsed = usage.unit;
+      }
+
+      return node;
+    };
+
+    const tree = await buildNode(
+      this.toPartSummary(part),
+      0,
+      undefined,
+      new Set([partId]),
+    );
+
+    return {
+      partId,
+      requestedDepth: depth,
+      nodeLimit,
+      nodeCount,
+      topLevelParts: [...topLevelParts.values()].sort((left, right) =>
+        left.partNumber.localeCompare(right.partNumber),
+      ),
+      tree,
+    };
+  }
+
+  async getFlatBom(
+    rootPartId: string,
+    revision?: string,
+    effectiveAt = new Date(),
+  ): Promise<FlatBomResponse> {
+    const rootPart = await this.requirePart(rootPartId);
+    const graph = await this.loadBomGraph(rootPart, revision, effectiveAt);
+
+    const totalQuantities = new Map<string, number>([[rootPartId, 1]]);
+    const lowestLevels = new Map<string, number>([[rootPartId, 0]]);
+
+    for (const partId of this.sortTopologically(graph)) {
+      const parentTotal = totalQuantities.get(partId) ?? 0;
+      const parentLevel = lowestLevels.get(partId) ?? 0;
+
+      for (const link of graph.childLinks.get(partId) ?? []) {
+        const quantityInBaseUnit = convertQuantity(
+          link.quantity,
+          link.unit,
+          graph.units.get(link.childId) ?? link.unit,
+        );
+
+        totalQuantities.set(
+          link.childId,
+          roundQuantity(
+            (totalQuantities.get(link.childId) ?? 0) +
+              parentTotal * quantityInBaseUnit,
+          ),
+        );
+        lowestLevels.set(
+          link.childId,
+          Math.max(lowestLevels.get(link.childId) ?? 0, parentLevel + 1),
+        );
+      }
+    }
+
+    const items: FlatBomItem[] = [];
+    for (const [partId, part] of graph.parts) {
+      if (partId === rootPartId) {
+        continue;
+      }
+
+      items.push({
+        part,
+        totalQuantity: totalQuantities.get(partId) ?? 0,
+        unit: graph.units.get(partId) ?? DEFAULT_UNIT,
+        lowestLevel: lowestLevels.get(partId) ?? 0,
+        isLeaf: (graph.childLinks.get(partId) ?? []).length === 0,
+      });
+    }
+
+    items.sort(
+      (left, right) =>
+        left.lowestLevel - right.lowestLevel ||
+        left.part.partNumber.localeCompare(right.part.partNumber),
+    );
+
+    return {
+      rootPartId,
+      revision: graph.rootRevision,
+      effectiveAt: effectiveAt.toISOString(),
+      itemCount: items.length,
+      items,
+    };
+  }
+
+  async compareBoms(
+    leftPartId: string,
+    rightPartId: string,
+    depth = this.maxExpandDepth,
+  ): Promise<BomCompareResponse> {
+    const [leftPart, rightPart] = await Promise.all([
+      this.requirePart(leftPartId),
+      this.requirePart(rightPartId),
+    ]);
+
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new BadRequestException('Depth must be an integer >= 1.');
+    }
+
+    if (depth > this.maxExpandDepth) {
+      throw new BadRequestException(
+        `Expand limit exceeded. Maximum supported depth is ${this.maxExpandDepth}.`,
+      );
+    }
+
+    const [leftGraph, rightGraph] = await Promise.all([
+      this.loadBomGraph(leftPart),
+      this.loadBomGraph(rightPart),
+    ]);
+
+    this.sortTopologically(leftGraph);
+    this.sortTopologically(rightGraph);
+
+    const levels = new Map<number, BomDiffLevel>();
+
+    const getLevel = (level: number): BomDiffLevel => {
+      let diffLevel = levels.get(level);
+      if (!diffLevel) {
+        diffLevel = {
+          level,
+          added: [],
+          removed: [],
+          quantityChanged: [],
+        };
+        levels.set(level, diffLevel);
+      }
+
+      return diffLevel;
+    };
+
+    const compareChildren = (
+      leftParentId: string | undefined,
+      rightParentId: string | undefined,
+      level: number,
+      path: string[],
+    ): void => {
+      if (level > depth) {
+        return;
+      }
+
+      const leftLinks = leftParentId
+        ? (leftGraph.childLinks.get(leftParentId) ?? [])
+        : [];
+      const rightLinks = rightParentId
+        ? (rightGraph.childLinks.get(rightParentId) ?? [])
+        : [];
+      const rightLinksByChild = new Map(
+        rightLinks.map((link) => [link.childId, link]),
+      );
+
+      for (const leftLink of leftLinks) {
+        const part = leftGraph.parts.get(leftLink.childId);
+        if (!part) {
+          continue;
+        }
+
+        const rightLink = rightLinksByChild.get(leftLink.childId);
+        rightLinksByChild.delete(leftLink.childId);
+
+        const entry: BomDiffEntry = {
+          part,
+          path,
+          leftQuantity: leftLink.quantity,
+          leftUnit: leftLink.unit,
+        };
+
+        if (!rightLink) {
+          getLevel(level).removed.push(entry);
+          compareChildren(leftLink.childId, undefined, level + 1, [
+            ...path,
+            part.partNumber,
+          ]);
+          continue;
+        }
+
+        const baseUnit = leftGraph.units.get(leftLink.childId) ?? DEFAULT_UNIT;
+        if (
+          convertQuantity(leftLink.quantity, leftLink.unit, baseUnit) !==
+          convertQuantity(rightLink.quantity, rightLink.unit, baseUnit)
+        ) {
+          getLevel(level).quantityChanged.push({
+            ...entry,
+            rightQuantity: rightLink.quantity,
+            rightUnit: rightLink.unit,
+          });
+        }
+      }
+
+      for (const rightLink of rightLinksByChild.values()) {
+        const part = rightGraph.parts.get(rightLink.childId);
+        if (!part) {
+          continue;
+        }
+
+        getLevel(level).added.push({
+          part,
+          path,
+          rightQuantity: rightLink.quantity,
+          rightUnit: rightLink.unit,
+        });
+        compareChildren(undefined, rightLink.childId, level + 1, [
+          ...path,
+          part.partNumber,
+        ]);
+      }
+    };
+
+    compareChildren(leftPartId, rightPartId, 1, []);
+
+    const diffLevels = [...levels.values()].sort(
+      (left, right) => left.level - right.level,
+    );
+
+    return {
+      left: this.toPartSummary(leftPart),
+      leftRevision: leftGraph.rootRevision,
+      right: this.toPartSummary(rightPart),
+      rightRevision: rightGraph.rootRevision,
+      requestedDepth: depth,
+      isIdentical: diffLevels.length === 0,
+      levels: diffLevels,
+    };
+  }
+
+  async getIndentedBom(
+    rootPartId: string,
+    revision?: string,
+  ): Promise<IndentedBomResponse> {
+    const rootPart = await this.requirePart(rootPartId);
+    const graph = await this.loadBomGraph(rootPart, revision);
+
+    this.sortTopologically(graph);
+
+    const rowCounts = new Map<string, number>();
+    const countRows = (partId: string): number => {
+      let count = rowCounts.get(partId);
+      if (count === undefined) {
+        count = 1;
+        for (const childLink of graph.childLinks.get(partId) ?? []) {
+          count += countRows(childLink.childId);
+        }
+
+        rowCounts.set(partId, count);
+      }
+
+      return count;
+    };
+
+    const rowCount = countRows(rootPartId);
+    if (rowCount > this.maxIndentedBomRows) {
+      throw new BadRequestException(
+        `Indented BOM would have ${rowCount} rows. Maximum supported row count is ${this.maxIndentedBomRows}.`,
+      );
+    }
+
+    const rows: IndentedBomRow[] = [];
+
+    const visit = (
+      partId: string,
+      level: number,
+      findPath: string,
+      extendedQuantity: number,
+      link: BomLink | undefined,
+    ): void => {
+      const part = graph.parts.get(partId);
+      if (!part) {
+        return;
+      }
+
+      rows.push({
+        level,
+        findPath,
+        part,
+        revision: graph.revisions.get(partId) ?? rootPart.revision,
+        quantityPerParent: link?.quantity,
+        unit: link?.unit,
+        extendedQuantity,
+        baseUnit: graph.units.get(partId) ?? DEFAULT_UNIT,
+      });
+
+      for (const childLink of graph.childLinks.get(partId) ?? []) {
+        const childUnit = graph.units.get(childLink.childId) ?? childLink.unit;
+
+        visit(
+          childLink.childId,
+          level + 1,
+          findPath
+            ? `${findPath}.${childLink.findNumber}`
+            : String(childLink.findNumber),
+          roundQuantity(
+            extendedQuantity *
+              convertQuantity(childLink.quantity, childLink.unit, childUnit),
+          ),
+          childLink,
+        );
+      }
+    };
+
+    visit(rootPartId, 0, '', 1, undefined);
+
+    return {
+      rootPartId,
+      revision: graph.rootRevision,
+      rowCount: rows.length,
+      rows,
+    };
+  }
+
+  async getBomCostRollup(
+    rootPartId: string,
+    revision?: string,
+  ): Promise<BomCostRollupResponse> {
+    const rootPart = await this.requirePart(rootPartId);
+    const graph = await this.loadBomGraph(rootPart, revision);
+
+    const costRows = await this.prisma.part.findMany({
+      where: {
+        id: {
+          in: [...graph.parts.keys()],
+        },
+      },
+      select: {
+        id: true,
+        unitCost: true,
+        currency: true,
+      },
+    });
+
+    const currency =
+      rootPart.currency ??
+      costRows.find((row) => row.currency !== null)?.currency ??
+      DEFAULT_CURRENCY;
+    const unitCosts = new Map<string, number>();
+    const currencyMismatchParts: PartSummary[] = [];
+
+    for (const row of costRows) {
+      if (row.unitCost === null) {
+        continue;
+      }
+
+      if (row.currency !== null && row.currency !== currency) {
+        const part = graph.parts.get(row.id);
+        if (part) {
+          currencyMismatchParts.push(part);
+        }
+        continue;
+      }
+
+      unitCosts.set(row.id, row.unitCost.toNumber());
+    }
+
+    const totalCosts = new Map<string, number>();
+    const assemblies: CostRollupAssembly[] = [];
+    const missingCostParts: PartSummary[] = [];
+
+    for (const partId of this.sortTopologically(graph).reverse()) {
+      const part = graph.parts.get(partId);
+      if (!part) {
+        continue;
+      }
+
+      const unitCost = unitCosts.get(partId);
+      const childLinks = graph.childLinks.get(partId) ?? [];
+
+      if (childLinks.length === 0) {
+        if (
+          unitCost === undefined &&
+          !currencyMismatchParts.some((mismatch) => mismatch.id === partId)
+        ) {
+          missingCostParts.push(part);
+        }
+
+        totalCosts.set(partId, unitCost ?? 0);
+        continue;
+      }
+
+      const materialCost = childLinks.reduce(
+        (sum, link) =>
+          sum +
+          convertQuantity(
+            link.quantity,
+            link.unit,
+            graph.units.get(link.childId) ?? link.unit,
+          ) *
+            (totalCosts.get(link.childId) ?? 0),
+        0,
+      );
+      const totalCost = (unitCost ?? 0) + materialCost;
+      totalCosts.set(partId, totalCost);
+
+      const assembly: CostRollupAssembly = {
+        part,
+        materialCost: this.roundCost(materialCost),
+        totalCost: this.roundCost(totalCost),
+      };
+
+      if (unitCost !== undefined) {
+        assembly.unitCost = unitCost;
+      }
+
+      assemblies.push(assembly);
+    }
+
+    const byPartNumber = (left: PartSummary, right: PartSummary) =>
+      left.partNumber.localeCompare(right.partNumber);
+
+    return {
+      rootPartId,
+      revision: graph.rootRevision,
+      currency,
+      totalCost: this.roundCost(totalCosts.get(rootPartId) ?? 0),
+      isComplete:
+        missingCostParts.length === 0 && currencyMismatchParts.length === 0,
+      assemblies: assemblies.sort((left, right) =>
+        byPartNumber(left.part, right.part),
+      ),
+      missingCostParts: missingCostParts.sort(byPartNumber),
+      currencyMismatchParts: currencyMismatchParts.sort(byPartNumber),
+    };
+  }
+
+  private assertPageSize(limit: number): void {
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.maxPageSize) {
+      throw new BadRequestException(
+        `limit must be between 1 and ${this.maxPageSize}.`,
+      );
+    }
+  }
+
+  private encodeCursor(cursor: PartSearchCursor | AuditLogCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private readCursor<T>(rawCursor: string): Partial<T> | null {
+    try {
+      return JSON.parse(
+        Buffer.from(rawCursor, 'base64url').toString('utf8'),
+      ) as Partial<T> | null;
+    } catch {
+      return null;
+    }
+  }
+
+  private decodePartSearchCursor(rawCursor: string): PartSearchCursor {
+    const cursor = this.readCursor<PartSearchCursor>(rawCursor);
+
+    if (
+      !cursor ||
+      typeof cursor.sortBy !== 'string' ||
+      typeof cursor.sortOrder !== 'string' ||
+      typeof cursor.value !== 'string' ||
+      typeof cursor.id !== 'string'
+    ) {
+      throw new BadRequestException('cursor is invalid.');
+    }
+
+    return cursor as PartSearchCursor;
+  }
+
+  private decodeAuditLogCursor(rawCursor: string): AuditLogCursor {
+    const cursor = this.readCursor<AuditLogCursor>(rawCursor);
+
+    if (
+      !cursor ||
+      typeof cursor.timestamp !== 'string' ||
+      Number.isNaN(new Date(cursor.timestamp).getTime()) ||
+      typeof cursor.id !== 'string'
+    ) {
+      throw new BadRequestException('cursor is invalid.');
+    }
+
+    return cursor as AuditLogCursor;
+  }
+
+  private async requirePart(partId: string): Promise<Part> {
+    const row = await this.prisma.part.findUnique({
+      where: {
+        id: partId,
+      },
+    });
+
+    if (!row) {
+      throw new NotFoundException(`Part '${partId}' was not found.`);
+    }
+
+    return this.toPart(row);
+  }
+
+  private async requirePartSnapshot(
+    history: PartHistory,
+    part: Part,
+    asOf: Date,
+  ): Promise<PartHistorySnapshot> {
+    const snapshot = await history.load(part.id);
+    if (!snapshot) {
+      throw new NotFoundException(
+        `Part ${part.partNumber} did not exist at ${asOf.toISOString()}.`,
+      );
+    }
+
+    return snapshot;
+  }
+
+  private createPartHistory(asOf: Date): PartHistory {
+    const snapshots = new Map<string, Promise<PartHistorySnapshot | null>>();
+    let isComplete = true;
+
+    return {
+      load: (partId) => {
+        let snapshot = snapshots.get(partId);
+        if (!snapshot) {
+          snapshot = this.loadPartSnapshot(partId, asOf).then((result) => {
+            if (result && !result.isComplete) {
+              isComplete = false;
+            }
+
+            return result && { part: result.part, links: result.links };
+          });
+          snapshots.set(partId, snapshot);
+        }
+
+        return snapshot;
+      },
+      isComplete: () => isComplete,
+    };
+  }
+
+  private async loadPartSnapshot(
+    partId: string,
+    asOf: Date,
+  ): Promise<(PartHistorySnapshot & { isComplete: boolean }) | null> {
+    const [row, linkRows, auditRows] = await Promise.all([
+      this.prisma.part.findUnique({
+        where: {
+          id: partId,
+        },
+      }),
+      this.prisma.bomLink.findMany({
+        where: {
+          parentId: partId,
+        },
+      }),
+      this.prisma.auditLog.findMany({
+        where: {
+          partId,
+          timestamp: {
+            gt: asOf,
+          },
+        },
+        orderBy: [
+          {
+            timestamp: 'desc',
+          },
+          {
+            id: 'desc',
+          },
+        ],
+      }),
+    ]);
+
+    if (!row || row.createdAt > asOf) {
+      return null;
+    }
+
+    const part = this.toPart(row);
+    const links = new Map(
+      linkRows.map((linkRow) => [linkRow.id, this.toBomLink(linkRow)]),
+    );
+    let isComplete = true;
+    let partFieldsReverted = false;
+
+    for (const auditRow of auditRows) {
+      const metadata = this.toAuditMetadata(auditRow.metadata) ?? {};
+      const changes = this.toAuditChanges(auditRow.changes);
+
+      if (
+        auditRow.action === 'BOM_LINK_CREATED' ||
+        auditRow.action === 'BOM_LINK_UPDATED' ||
+        auditRow.action === 'BOM_LINK_REMOVED'
+      ) {
+        const childId = metadata.childId;
+        if (typeof childId !== 'string') {
+          continue;
+        }
+
+        const revision =
+          typeof metadata.revision === 'string'
+            ? metadata.revision
+            : INITIAL_REVISION;
+        const key =
+          typeof metadata.linkId === 'string'
+            ? metadata.linkId
+            : ([...links.values()].find(
+                (link) =>
+                  link.revision === revision && link.childId === childId,
+              )?.id ?? `${revision}:${childId}`);
+
+        if (auditRow.action === 'BOM_LINK_CREATED') {
+          links.delete(key);
+          continue;
+        }
+
+        const quantity = changes?.quantity?.from;
+        const unit = changes?.unit?.from;
+        if (typeof quantity !== 'number' || typeof unit !== 'string') {
+          isComplete = false;
+          continue;
+        }
+
+        const currentLink = links.get(key);
+        const createdAt = changes?.createdAt?.from;
+        const findNumber = changes?.findNumber?.from;
+        const referenceDesignators = changes?.referenceDesignators
+          ? changes.referenceDesignators.from
+          : currentLink?.referenceDesignators.join(',');
+        const link: BomLink = {
+          id: key,
+          parentId: partId,
+          revision,
+          childId,
+          findNumber:
+            typeof findNumber === 'number'
+              ? findNumber
+              : (currentLink?.findNumber ?? 0),
+          quantity,
+          unit,
+          referenceDesignators:
+            typeof referenceDesignators === 'string' && referenceDesignators
+              ? referenceDesignators.split(',')
+              : [],
+          version: currentLink?.version ?? 1,
+          createdAt:
+            currentLink?.createdAt ??
+            (typeof createdAt === 'string'
+              ? createdAt
+              : auditRow.timestamp.toISOString()),
+        };
+
+        for (const field of ['effectiveFrom', 'effectiveTo'] as const) {
+          const change = changes?.[field];
+          const value = change ? change.from : currentLink?.[field];
+          if (typeof value === 'string') {
+            link[field] = value;
+          }
+        }
+
+        links.set(key, link);
+        continue;
+      }
+
+      if (!PART_FIELD_AUDIT_ACTIONS.includes(auditRow.action)) {
+        continue;
+      }
+
+      partFieldsReverted = true;
+
+      if (changes) {
+        this.revertPartFields(part, changes);
+      } else if (
+        auditRow.action === 'PART_STATUS_CHANGED' &&
+        typeof metadata.from === 'string'
+      ) {
+        part.status = metadata.from as PartStatus;
+      } else if (
+        auditRow.action === 'PART_REVISION_CREATED' &&
+        typeof metadata.fromRevision === 'string'
+      ) {
+        part.revision = metadata.fromRevision;
+        part.status = 'RELEASED';
+      } else {
+        isComplete = false;
+      }
+    }
+
+    if (partFieldsReverted) {
+      const lastPartChange = await this.prisma.auditLog.findFirst({
+        where: {
+          partId,
+          action: {
+            in: PART_FIELD_AUDIT_ACTIONS as PrismaAuditAction[],
+          },
+          timestamp: {
+            lte: asOf,
+          },
+        },
+        orderBy: {
+          timestamp: 'desc',
+        },
+        select: {
+          timestamp: true,
+        },
+      });
+
+      part.updatedAt = (
+        lastPartChange?.timestamp ?? row.createdAt
+      ).toISOString();
+    }
+
+    const existingChildren = await this.prisma.part.findMany({
+      where: {
+        id: {
+          in: [...new Set([...links.values()].map((link) => link.childId))],
+        },
+        createdAt: {
+          lte: asOf,
+        },
+      },
+      select: {
+        id: true,
+      },
+    });
+    const existingChildIds = new Set(existingChildren.map((child) => child.id));
+
+    const snapshotLinks = [...links.values()].filter((link) => {
+      if (existingChildIds.has(link.childId)) {
+        return true;
+      }
+
+      isComplete = false;
+      return false;
+    });
+
+    return {
+      part,
+      links: snapshotLinks,
+      isComplete,
+    };
+  }
+
+  private async getCategoryRows(): Promise<Map<string, PrismaCategoryRecord>> {
+    const rows = await this.prisma.category.findMany({
+      orderBy: [
+        {
+          name: 'asc',
+        },
+        {
+          id: 'asc',
+        },
+      ],
+    });
+
+    return new Map(rows.map((row) => [row.id, row]));
+  }
+
+  private async getCategoryPartCounts(): Promise<Map<string, number>> {
+    const rows = await this.prisma.part.groupBy({
+      by: ['categoryId'],
+      where: {
+        categoryId: {
+          not: null,
+        },
+      },
+      _count: {
+        _all: true,
+      },
+    });
+
+    return new Map(rows.map((row) => [row.categoryId ?? '', row._count._all]));
+  }
+
+  private requireCategory(
+    categories: Map<string, PrismaCategoryRecord>,
+    categoryId: string,
+  ): PrismaCategoryRecord {
+    const category = categories.get(categoryId);
+    if (!category) {
+      throw new NotFoundException(`Category '${categoryId}' was not found.`);
+    }
+
+    return category;
+  }
+
+  private async requireCategoryChain(
+    categoryId: string,
+  ): Promise<PrismaCategoryRecord[]> {
+    const categories = await this.getCategoryRows();
+    this.requireCategory(categories, categoryId);
+
+    return this.getCategoryChain(categories, categoryId);
+  }
+
+  private getCategoryChain(
+    categories: Map<string, PrismaCategoryRecord>,
+    categoryId: string,
+  ): PrismaCategoryRecord[] {
+    const chain: PrismaCategoryRecord[] = [];
+    let current = categories.get(categoryId);
+
+    while (current) {
+      chain.unshift(current);
+      current = current.parentId ? categories.get(current.parentId) : undefined;
+    }
+
+    return chain;
+  }
+
+  private getCategorySubtreeIds(
+    categories: Map<string, PrismaCategoryRecord>,
+    categoryId: string,
+  ): string[] {
+    const ids = [categoryId];
+
+    for (let index = 0; index < ids.length; index += 1) {
+      for (const row of categories.values()) {
+        if (row.parentId === ids[index]) {
+          ids.push(row.id);
+        }
+      }
+    }
+
+    return ids;
+  }
+
+  private async getCategorySummary(
+    categoryId?: string,
+  ): Promise<CategorySummary | undefined> {
+    if (!categoryId) {
+      return undefined;
+    }
+
+    const categories = await this.getCategoryRows();
+    const category = categories.get(categoryId);
+
+    return category ? this.toCategorySummary(category, categories) : undefined;
+  }
+
+  private assertCategoryNameIsAvailable(
+    categories: Map<string, PrismaCategoryRecord>,
+    name: string,
+    parentId: string | null,
+    excludedCategoryId?: string,
+  ): void {
+    const sibling = [...categories.values()].find(
+      (row) =>
+        row.parentId === parentId &&
+        row.id !== excludedCategoryId &&
+        row.name.toLowerCase() === name.toLowerCase(),
+    );
+
+    if (sibling) {
+      const parent = parentId ? categories.get(parentId) : undefined;
+      throw new ConflictException(
+        parent
+          ? `Category '${name}' already exists under ${parent.name}.`
+          : `Category '${name}' already exists at the top level.`,
+      );
+    }
+  }
+
+  private normalizePartNumberPrefix(
+    prefix: string | null | undefined,
+  ): string | null {
+    return prefix?.trim().toUpperCase() || null;
+  }
+
+  private async resolveCategoryRequiredAttributes(
+    keys: string[],
+  ): Promise<string[]> {
+    const definitionKeys = new Set(
+      (await this.getAttributeDefinitionRows()).map((row) => row.key),
+    );
+    const requiredAttributes: string[] = [];
+
+    for (const rawKey of keys) {
+      const key = rawKey.trim();
+      if (!definitionKeys.has(key)) {
+        throw new BadRequestException(`Unknown attribute '${key}'.`);
+      }
+
+      if (!requiredAttributes.includes(key)) {
+        requiredAttributes.push(key);
+      }
+    }
+
+    return requiredAttributes;
+  }
+
+  private findCategoryRuleViolation(
+    chain: PrismaCategoryRecord[],
+    partNumber: string,
+    attributes: PartAttributes,
+  ): string | undefined {
+    for (const category of chain) {
+      if (
+        category.partNumberPrefix &&
+        !partNumber.startsWith(category.partNumberPrefix)
+      ) {
+        return `Category ${category.name} requires part numbers starting with '${category.partNumberPrefix}'.`;
+      }
+
+      const missingKey = category.requiredAttributes.find(
+        (key) => attributes[key] === undefined,
+      );
+      if (missingKey) {
+        return `Category ${category.name} requires attribute '${missingKey}'.`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private assertPartFitsCategory(
+    chain: PrismaCategoryRecord[],
+    partNumber: string,
+    attributes: PartAttributes,
+  ): void {
+    const violation = this.findCategoryRuleViolation(
+      chain,
+      partNumber,
+      attributes,
+    );
+
+    if (violation) {
+      throw new BadRequestException(violation);
+    }
+  }
+
+  private async assertCategoryPartsFitRules(
+    categories: Map<string, PrismaCategoryRecord>,
+    categoryId: string,
+  ): Promise<void> {
+    const parts = await this.prisma.part.findMany({
+      where: {
+        categoryId: {
+          in: this.getCategorySubtreeIds(categories, categoryId),
+        },
+      },
+      orderBy: {
+        partNumber: 'asc',
+      },
+      select: {
+        partNumber: true,
+        attributes: true,
+        categoryId: true,
+      },
+    });
+
+    for (const part of parts) {
+      const violation = this.findCategoryRuleViolation(
+        this.getCategoryChain(categories, part.categoryId ?? categoryId),
+        part.partNumber,
+        this.toPartAttributes(part.attributes),
+      );
+
+      if (violation) {
+        throw new ConflictException(
+          `Part ${part.partNumber} does not meet the updated category rules. ${violation}`,
+        );
+      }
+    }
+  }
+
+  private revertPartFields(part: Part, changes: AuditChanges): void {
+    for (const field of PART_HISTORY_FIELDS) {
+      const change = changes[field];
+      if (change) {
+        Object.assign(part, {
+          [field]: change.from ?? undefined,
+        });
+      }
+    }
+
+    for (const [field, change] of Object.entries(changes)) {
+      if (!field.startsWith(ATTRIBUTE_CHANGE_PREFIX)) {
+        continue;
+      }
+
+      const key = field.slice(ATTRIBUTE_CHANGE_PREFIX.length);
+      if (change.from === null) {
+        delete part.attributes[key];
+      } else {
+        part.attributes[key] = change.from;
+      }
+    }
+  }
+
+  private async getChildLinksFromHistory(
+    history: PartHistory,
+    partId: string,
+    revision: string,
+    effectiveAt: Date,
+  ): Promise<BomLink[]> {
+    const snapshot = await history.load(partId);
+    const links: { link: BomLink; partNumber: string }[] = [];
+
+    for (const link of snapshot?.links ?? []) {
+      if (
+        link.revision !== revision ||
+        !this.isEffectiveAt(link, effectiveAt)
+      ) {
+        continue;
+      }
+
+      const child = await history.load(link.childId);
+      if (child) {
+        links.push({ link, partNumber: child.part.partNumber });
+      }
+    }
+
+    return links
+      .sort(
+        (left, right) =>
+          left.link.findNumber - right.link.findNumber ||
+          left.partNumber.localeCompare(right.partNumber),
+      )
+      .map((entry) => entry.link);
+  }
+
+  private async resolveRevision(
+    part: Part,
+    revision?: string,
+  ): Promise<string> {
+    const requestedRevision = revision?.trim();
+    if (!requestedRevision) {
+      return part.revision;
+    }
+
+    if (requestedRevision.toLowerCase() === LATEST_RELEASED_REVISION) {
+      const releasedRevision = await this.findLatestReleasedRevision(part.id);
+      if (!releasedRevision) {
+        throw new NotFoundException(
+          `Part ${part.partNumber} has no released revision.`,
+        );
+      }
+
+      return releasedRevision;
+    }
+
+    const code = requestedRevision.toUpperCase();
+    const existing = await this.prisma.partRevision.findUnique({
+      where: {
+        partId_code: {
+          partId: part.id,
+          code,
+        },
+      },
+      select: {
+        code: true,
+      },
+    });
+
+    if (!existing) {
+      throw new NotFoundException(
+        `Revision ${code} of part ${part.partNumber} was not found.`,
+      );
+    }
+
+    return existing.code;
+  }
+
+  private async findLatestReleasedRevision(
+    partId: string,
+  ): Promise<string | undefined> {
+    const row = await this.prisma.partRevision.findFirst({
+      where: {
+        partId,
+        status: 'RELEASED',
+      },
+      orderBy: {
+        sequence: 'desc',
+      },
+      select: {
+        code: true,
+      },
+    });
+
+    return row?.code;
+  }
+
+  private async findLatestReleasedRevisions(
+    partIds: string[],
+  ): Promise<Map<string, string>> {
+    const releasedRevisions = new Map<string, string>();
+    if (partIds.length === 0) {
+      return releasedRevisions;
+    }
+
+    const rows = await this.prisma.partRevision.findMany({
+      where: {
+        partId: {
+          in: partIds,
+        },
+        status: 'RELEASED',
+      },
+      orderBy: {
+        sequence: 'desc',
+      },
+      select: {
+        partId: true,
+        code: true,
+      },
+    });
+
+    for (const row of rows) {
+      if (!releasedRevisions.has(row.partId)) {
+        releasedRevisions.set(row.partId, row.code);
+      }
+    }
+
+    return releasedRevisions;
+  }
+
+  private async loadBomGraph(
+    rootPart: Part,
+    revision?: string,
+    effectiveAt = new Date(),
+  ): Promise<BomGraph> {
+    const rootRevision = await this.resolveRevision(rootPart, revision);
+    const useReleasedRevisions =
+      revision?.trim().toLowerCase() === LATEST_RELEASED_REVISION;
+
+    const graph: BomGraph = {
+      rootRevision,
+      parts: new Map([[rootPart.id, this.toPartSummary(rootPart)]]),
+      revisions: new Map([[rootPart.id, rootRevision]]),
+      units: new Map([[rootPart.id, rootPart.unit]]),
+      childLinks: new Map(),
+    };
+
+    let frontier = [rootPart.id];
+
+    while (frontier.length > 0) {
+      const rows = await this.prisma.bomLink.findMany({
+        where: {
+          OR: frontier.map((partId) => ({
+            parentId: partId,
+            revision: graph.revisions.get(partId),
+          })),
+          ...this.effectiveAtFilter(effectiveAt),
+        },
+        orderBy: [
+          {
+            findNumber: 'asc',
+          },
+          {
+            child: {
+              partNumber: 'asc',
+            },
+          },
+        ],
+        include: {
+          child: {
+            select: {
+              id: true,
+              partNumber: true,
+              name: true,
+              currentRevision: true,
+              unit: true,
+            },
+          },
+        },
+      });
+
+      for (const partId of frontier) {
+        graph.childLinks.set(partId, []);
+      }
+
+      const discoveredParts: (typeof rows)[number]['child'][] = [];
+
+      for (const row of rows) {
+        graph.childLinks.get(row.parentId)?.push(this.toBomLink(row));
+
+        if (!graph.parts.has(row.child.id)) {
+          graph.parts.set(row.child.id, {
+            id: row.child.id,
+            partNumber: row.child.partNumber,
+            name: row.child.name,
+          });
+          graph.units.set(row.child.id, row.child.unit);
+          discoveredParts.push(row.child);
+        }
+      }
+
+      const releasedRevisions = useReleasedRevisions
+        ? await this.findLatestReleasedRevisions(
+            discoveredParts.map((part) => part.id),
+          )
+        : new Map<string, string>();
+
+      for (const part of discoveredParts) {
+        graph.revisions.set(
+          part.id,
+          releasedRevisions.get(part.id) ?? part.currentRevision,
+        );
+      }
+
+      frontier = discoveredParts.map((part) => part.id);
+    }
+
+    return graph;
+  }
+
+  private sortTopologically(graph: BomGraph): string[] {
+    const incomingCounts = new Map<string, number>();
+    for (const partId of graph.parts.keys()) {
+      incomingCounts.set(partId, 0);
+    }
+
+    for (const links of graph.childLinks.values()) {
+      for (const link of links) {
+        incomingCounts.set(
+          link.childId,
+          (incomingCounts.get(link.childId) ?? 0) + 1,
+        );
+      }
+    }
+
+    const queue = [...incomingCounts.entries()]
+      .filter(([, count]) => count === 0)
+      .map(([partId]) => partId);
+    const ordered: string[] = [];
+
+    while (queue.length > 0) {
+      const partId = queue.shift() as string;
+      ordered.push(partId);
+
+      for (const link of graph.childLinks.get(partId) ?? []) {
+        const remaining = (incomingCounts.get(link.childId) ?? 0) - 1;
+        incomingCounts.set(link.childId, remaining);
+
+        if (remaining === 0) {
+          queue.push(link.childId);
+        }
+      }
+    }
+
+    if (ordered.length !== graph.parts.size) {
+      throw new BadRequestException(
+        'BOM structure contains a cycle and cannot be exploded.',
+      );
+    }
+
+    return ordered;
+  }
+
+  private async getPartRevisions(
+    partId: string,
+    currentRevision: string,
+  ): Promise<PartRevisionSummary[]> {
+    const rows = await this.prisma.partRevision.findMany({
+      where: {
+        partId,
+      },
+      orderBy: {
+        sequence: 'asc',
+      },
+      include: {
+        _count: {
+          select: {
+            bomLinks: true,
+          },
+        },
+      },
+    });
+
+    return rows.map((row) => this.toPartRevisionSummary(row, currentRevision));
   }
 
-  async getPartDetails(partId: string): Promise<PartDetails> {
-    const part = await this.requirePart(partId);
+  private async getParentParts(partId: string): Promise<PartSummary[]> {
+    const usages = await this.getParentUsages(partId);
+    const parents = new Map(
+      usages.map((usage) => [usage.parent.id, usage.parent]),
+    );
+    return [...parents.values()];
+  }
 
-    const [parentLinks, childLinks] = await Promise.all([
-      this.prisma.bomLink.findMany({
-        where: {
-          childId: partId,
+  private async getParentUsages(
+    partId: string,
+    effectiveAt?: Date,
+  ): Promise<ParentPartUsage[]> {
+    const rows = await this.prisma.bomLink.findMany({
+      where: {
+        childId: partId,
+        ...(effectiveAt ? this.effectiveAtFilter(effectiveAt) : {}),
+      },
+      orderBy: {
+        parent: {
+          partNumber: 'asc',
         },
-        orderBy: {
-          parent: {
+      },
+      select: {
+        revision: true,
+        quantity: true,
+        unit: true,
+        parent: {
+          select: {
+            id: true,
+            partNumber: true,
+            name: true,
+            currentRevision: true,
+          },
+        },
+      },
+    });
+
+    return rows
+      .filter((row) => row.revision === row.parent.currentRevision)
+      .map((row) => ({
+        parent: {
+          id: row.parent.id,
+          partNumber: row.parent.partNumber,
+          name: row.parent.name,
+        },
+        quantity: row.quantity.toNumber(),
+        unit: row.unit,
+      }));
+  }
+
+  private async getChildParts(
+    partId: string,
+    revision: string,
+  ): Promise<ChildPartUsage[]> {
+    const rows = await this.prisma.bomLink.findMany({
+      where: {
+        parentId: partId,
+        revision,
+      },
+      orderBy: [
+        {
+          findNumber: 'asc',
+        },
+        {
+          child: {
             partNumber: 'asc',
           },
         },
-        select: {
-          parent: {
+        {
+          effectiveFrom: {
+            sort: 'asc',
+            nulls: 'first',
+          },
+        },
+      ],
+      include: {
+        child: {
+          select: {
+            id: true,
+            partNumber: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    const links = rows.map((row) => this.toBomLink(row));
+    const alternates = await this.getLinkAlternates(links);
+
+    return rows.map((row, index) =>
+      this.toChildPartUsage(
+        row.child,
+        links[index],
+        alternates.get(links[index].id) ?? [],
+      ),
+    );
+  }
+
+  private toChildPartUsage(
+    child: PartSummary,
+    link: BomLink,
+    alternates: BomAlternate[],
+  ): ChildPartUsage {
+    const usage: ChildPartUsage = {
+      id: child.id,
+      partNumber: child.partNumber,
+      name: child.name,
+      linkId: link.id,
+      findNumber: link.findNumber,
+      quantity: link.quantity,
+      unit: link.unit,
+      referenceDesignators: link.referenceDesignators,
+      alternates,
+    };
+
+    if (link.effectiveFrom) {
+      usage.effectiveFrom = link.effectiveFrom;
+    }
+
+    if (link.effectiveTo) {
+      usage.effectiveTo = link.effectiveTo;
+    }
+
+    return usage;
+  }
+
+  private async createAlternate(
+    part: Part,
+    alternatePart: Part,
+    rankInput: number | undefined,
+    parentIds: string[],
+    line?: AlternateLine,
+  ): Promise<BomAlternate> {
+    if (alternatePart.id === part.id) {
+      throw new BadRequestException('A part cannot be its own alternate.');
+    }
+
+    if (alternatePart.status === 'OBSOLETE') {
+      throw new BadRequestException(
+        `Obsolete part ${alternatePart.partNumber} cannot be used as an alternate.`,
+      );
+    }
+
+    if (!areUnitsCompatible(alternatePart.unit, part.unit)) {
+      throw new BadRequestException(
+        `Alternate ${alternatePart.partNumber} uses unit ${alternatePart.unit}, which cannot replace ${part.unit} of ${part.partNumber}.`,
+      );
+    }
+
+    const scope = this.describeAlternateScope(part, line);
+    const siblings = await this.prisma.bomAlternate.findMany({
+      where: {
+        partId: part.id,
+        linkId: line?.linkId ?? null,
+      },
+      include: {
+        alternatePart: {
+          select: {
+            id: true,
+            partNumber: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (
+      siblings.some((sibling) => sibling.alternatePart.id === alternatePart.id)
+    ) {
+      throw new ConflictException(
+        `Part ${alternatePart.partNumber} is already an alternate for ${scope}.`,
+      );
+    }
+
+    const rank =
+      rankInput ?? Math.max(0, ...siblings.map((sibling) => sibling.rank)) + 1;
+    if (!Number.isInteger(rank) || rank <= 0) {
+      throw new BadRequestException(
+        'Alternate rank must be a positive integer.',
+      );
+    }
+
+    const rankOwner = siblings.find((sibling) => sibling.rank === rank);
+    if (rankOwner) {
+      throw new BadRequestException(
+        `Rank ${rank} is already used by alternate ${rankOwner.alternatePart.partNumber} for ${scope}.`,
+      );
+    }
+
+    for (const parentId of parentIds) {
+      if (await this.isReachable(alternatePart.id, parentId)) {
+        throw new BadRequestException(
+          'BOM alternate creation failed because it would introduce a cycle.',
+        );
+      }
+    }
+
+    const createdAlternate = await this.prisma.$transaction(async (tx) => {
+      const alternate = await tx.bomAlternate.create({
+        data: {
+          id: this.allocateBomAlternateId(),
+          partId: part.id,
+          alternatePartId: alternatePart.id,
+          linkId: line?.linkId,
+          rank,
+        },
+        include: {
+          alternatePart: {
             select: {
               id: true,
               partNumber: true,
@@ -360,280 +5285,791 @@ export class PartBomStoreService implements OnModuleInit {
             },
           },
         },
-      }),
-      this.prisma.bomLink.findMany({
+      });
+
+      await this.writeAudit(
+        tx,
+        line?.parent.id ?? part.id,
+        'BOM_ALTERNATE_ADDED',
+        `Added ${alternatePart.partNumber} as alternate for ${scope}.`,
+        {
+          alternateId: alternate.id,
+          alternatePartId: alternatePart.id,
+          rank,
+          ...(line
+            ? {
+                linkId: line.linkId,
+                childId: part.id,
+              }
+            : {}),
+        },
+      );
+
+      return alternate;
+    });
+
+    return this.toBomAlternate(createdAlternate);
+  }
+
+  private async deleteAlternate(
+    part: Part,
+    alternatePartId: string,
+    line?: AlternateLine,
+  ): Promise<void> {
+    const scope = this.describeAlternateScope(part, line);
+    const alternate = await this.prisma.bomAlternate.findFirst({
+      where: {
+        partId: part.id,
+        alternatePartId,
+        linkId: line?.linkId ?? null,
+      },
+      include: {
+        alternatePart: {
+          select: {
+            partNumber: true,
+          },
+        },
+      },
+    });
+
+    if (!alternate) {
+      throw new NotFoundException(
+        `Part '${alternatePartId}' is not an alternate for ${scope}.`,
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.bomAlternate.delete({
         where: {
-          parentId: partId,
+          id: alternate.id,
         },
-        orderBy: {
-          child: {
-            partNumber: 'asc',
+      });
+
+      await this.writeAlternateRemovedAudit(tx, part, alternate, line);
+    });
+  }
+
+  private async writeAlternateRemovedAudit(
+    tx: TxClient,
+    part: Part,
+    alternate: {
+      id: string;
+      alternatePartId: string;
+      rank: number;
+      alternatePart: {
+        partNumber: string;
+      };
+    },
+    line?: AlternateLine,
+    reason?: string,
+  ): Promise<void> {
+    await this.writeAudit(
+      tx,
+      line?.parent.id ?? part.id,
+      'BOM_ALTERNATE_REMOVED',
+      `Removed ${alternate.alternatePart.partNumber} as alternate for ${this.describeAlternateScope(part, line)}${reason ? ` ${reason}` : ''}.`,
+      {
+        alternateId: alternate.id,
+        alternatePartId: alternate.alternatePartId,
+        rank: alternate.rank,
+        ...(line
+          ? {
+              linkId: line.linkId,
+              childId: part.id,
+            }
+          : {}),
+      },
+    );
+  }
+
+  private describeAlternateScope(part: Part, line?: AlternateLine): string {
+    return line
+      ? `child ${part.partNumber} in ${line.parent.partNumber}`
+      : part.partNumber;
+  }
+
+  private async getPartAlternates(partId: string): Promise<BomAlternate[]> {
+    const rows = await this.prisma.bomAlternate.findMany({
+      where: {
+        partId,
+        linkId: null,
+      },
+      orderBy: {
+        rank: 'asc',
+      },
+      include: {
+        alternatePart: {
+          select: {
+            id: true,
+            partNumber: true,
+            name: true,
           },
         },
-        select: {
-          quantity: true,
-          child: {
-            select: {
-              id: true,
-              partNumber: true,
-              name: true,
+      },
+    });
+
+    return rows.map((row) => this.toBomAlternate(row));
+  }
+
+  private async getLinkAlternates(
+    links: BomLink[],
+  ): Promise<Map<string, BomAlternate[]>> {
+    const alternatesByLink = new Map<string, BomAlternate[]>();
+    if (links.length === 0) {
+      return alternatesByLink;
+    }
+
+    const rows = await this.prisma.bomAlternate.findMany({
+      where: {
+        OR: [
+          {
+            linkId: {
+              in: links.map((link) => link.id),
             },
           },
+          {
+            linkId: null,
+            partId: {
+              in: [...new Set(links.map((link) => link.childId))],
+            },
+          },
+        ],
+      },
+      orderBy: {
+        rank: 'asc',
+      },
+      include: {
+        alternatePart: {
+          select: {
+            id: true,
+            partNumber: true,
+            name: true,
+          },
         },
-      }),
+      },
+    });
+
+    for (const link of links) {
+      alternatesByLink.set(link.id, [
+        ...rows
+          .filter((row) => row.linkId === link.id)
+          .map((row) => this.toBomAlternate(row)),
+        ...rows
+          .filter((row) => row.linkId === null && row.partId === link.childId)
+          .map((row) => this.toBomAlternate(row)),
+      ]);
+    }
+
+    return alternatesByLink;
+  }
+
+  private async getChildLinks(
+    parentId: string,
+    revision: string,
+    effectiveAt: Date,
+  ): Promise<BomLink[]> {
+    const rows = await this.prisma.bomLink.findMany({
+      where: {
+        parentId,
+        revision,
+        ...this.effectiveAtFilter(effectiveAt),
+      },
+      orderBy: [
+        {
+          findNumber: 'asc',
+        },
+        {
+          child: {
+            partNumber: 'asc',
+          },
+        },
+      ],
+    });
+
+    return rows.map((row) => this.toBomLink(row));
+  }
+
+  private resolveImportPartRef(
+    partRefs: Map<string, ImportPartRef>,
+    partNumberInput: string,
+  ): ImportPartRef {
+    const partNumber = partNumberInput.trim().toUpperCase();
+    if (!partNumber) {
+      throw new BadRequestException(
+        'Both parent and child part numbers are required.',
+      );
+    }
+
+    const ref = partRefs.get(partNumber);
+    if (!ref) {
+      throw new BadRequestException(
+        `Part number '${partNumber}' was not found in the import or the catalog.`,
+      );
+    }
+
+    return ref;
+  }
+
+  private async collectImportRowError(
+    errors: BomImportRowError[],
+    file: BomImportFile,
+    row: number,
+    check: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await check();
+    } catch (error) {
+      if (!(error instanceof BadRequestException)) {
+        throw error;
+      }
+
+      errors.push({
+        file,
+        row,
+        message: error.message,
+      });
+    }
+  }
+
+  private diffPartFields(before: Part, after: Part): AuditChanges {
+    const changes: AuditChanges = {};
+
+    for (const field of PART_HISTORY_FIELDS) {
+      const from = before[field] ?? null;
+      const to = after[field] ?? null;
+
+      if (from !== to) {
+        changes[field] = { from, to };
+      }
+    }
+
+    const attributeKeys = new Set([
+      ...Object.keys(before.attributes),
+      ...Object.keys(after.attributes),
     ]);
 
-    const parentParts: PartSummary[] = parentLinks.map((row) => ({
-      id: row.parent.id,
-      partNumber: row.parent.partNumber,
-      name: row.parent.name,
-    }));
+    for (const key of attributeKeys) {
+      const from = before.attributes[key] ?? null;
+      const to = after.attributes[key] ?? null;
+
+      if (from !== to) {
+        changes[`${ATTRIBUTE_CHANGE_PREFIX}${key}`] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  private async getAttributeDefinitionRows(): Promise<
+    PrismaAttributeDefinitionRecord[]
+  > {
+    return this.prisma.attributeDefinition.findMany({
+      orderBy: {
+        key: 'asc',
+      },
+    });
+  }
+
+  private async requireAttributeDefinition(
+    key: string,
+  ): Promise<PrismaAttributeDefinitionRecord> {
+    const definition = await this.prisma.attributeDefinition.findUnique({
+      where: {
+        key,
+      },
+    });
+
+    if (!definition) {
+      throw new NotFoundException(`Attribute '${key}' was not found.`);
+    }
+
+    return definition;
+  }
+
+  private resolveAttributeShape(
+    type: AttributeType,
+    unitInput: string | null | undefined,
+    optionsInput: string[],
+  ): AttributeShape {
+    const unit = unitInput?.trim() || null;
+    if (unit && type !== 'NUMBER') {
+      throw new BadRequestException('Only NUMBER attributes can have a unit.');
+    }
+
+    if (type !== 'ENUM') {
+      if (optionsInput.length > 0) {
+        throw new BadRequestException('Only ENUM attributes can have options.');
+      }
+
+      return { unit, options: [] };
+    }
+
+    const options: string[] = [];
+    for (const rawOption of optionsInput) {
+      const option = rawOption.trim();
+      if (!option) {
+        throw new BadRequestException('Attribute options cannot be empty.');
+      }
+
+      if (
+        options.some(
+          (existing) => existing.toLowerCase() === option.toLowerCase(),
+        )
+      ) {
+        throw new BadRequestException(
+          `Attribute option '${option}' is listed more than once.`,
+        );
+      }
+
+      options.push(option);
+    }
+
+    if (options.length === 0) {
+      throw new BadRequestException(
+        'ENUM attributes need at least one option.',
+      );
+    }
+
+    return { unit, options };
+  }
+
+  private resolvePartAttributes(
+    input: Record<string, unknown> | undefined,
+    definitions: PrismaAttributeDefinitionRecord[],
+    current: PartAttributes = {},
+  ): PartAttributes {
+    const definitionsByKey = new Map(
+      definitions.map((definition) => [definition.key, definition]),
+    );
+    const attributes = { ...current };
 
-    const childParts: ChildPartUsage[] = childLinks.map((row) => ({
-      id: row.child.id,
-      partNumber: row.child.partNumber,
-      name: row.child.name,
-      quantity: row.quantity,
-    }));
+    for (const [key, value] of Object.entries(input ?? {})) {
+      const definition = definitionsByKey.get(key);
+      if (!definition) {
+        throw new BadRequestException(`Unknown attribute '${key}'.`);
+      }
+
+      if (value === null) {
+        delete attributes[key];
+        continue;
+      }
+
+      const normalized = normalizeAttributeValue(definition, value);
+      if (normalized === undefined) {
+        throw new BadRequestException(
+          `Attribute '${key}' must be ${describeAttributeRule(definition)}.`,
+        );
+      }
+
+      attributes[key] = normalized;
+    }
+
+    for (const definition of definitions) {
+      if (definition.isRequired && attributes[definition.key] === undefined) {
+        throw new BadRequestException(
+          `Attribute '${definition.key}' is required.`,
+        );
+      }
+    }
+
+    return attributes;
+  }
+
+  private parseImportAttributes(
+    values: Record<string, string> | undefined,
+    definitions: PrismaAttributeDefinitionRecord[],
+  ): Record<string, unknown> {
+    const parsed: Record<string, unknown> = {};
+
+    for (const [key, text] of Object.entries(values ?? {})) {
+      const definition = definitions.find((row) => row.key === key);
+      parsed[key] =
+        (definition && parseAttributeText(definition, text)) ?? text;
+    }
+
+    return parsed;
+  }
 
+  private toPartSummary(part: Part): PartSummary {
     return {
-      ...part,
-      parentCount: parentParts.length,
-      childCount: childParts.length,
-      parentParts,
-      childParts,
+      id: part.id,
+      partNumber: part.partNumber,
+      name: part.name,
     };
   }
 
-  async getPartAuditLogs(partId: string): Promise<AuditLog[]> {
-    await this.requirePart(partId);
+  private resolveUnit(unitInput: string): string {
+    const unit = normalizeUnit(unitInput);
+    if (!unit) {
+      throw new BadRequestException(
+        `Unit must be one of: ${SUPPORTED_UNITS.join(', ')}.`,
+      );
+    }
 
-    const rows = await this.prisma.auditLog.findMany({
-      where: {
-        partId,
-      },
-      orderBy: {
-        timestamp: 'desc',
-      },
-    });
+    return unit;
+  }
 
-    return rows.map((row) => ({
-      id: row.id,
-      partId: row.partId,
-      action: row.action,
-      message: row.message,
-      timestamp: row.timestamp.toISOString(),
-      metadata: this.toAuditMetadata(row.metadata),
-    }));
+  private resolveLinkUnit(
+    unitInput: string | undefined,
+    fallbackUnit: string,
+    child: Pick<Part, 'partNumber' | 'unit'>,
+  ): string {
+    const unit =
+      unitInput === undefined ? fallbackUnit : this.resolveUnit(unitInput);
+
+    if (!areUnitsCompatible(unit, child.unit)) {
+      throw new BadRequestException(
+        `Unit ${unit} does not match base unit ${child.unit} of part ${child.partNumber}.`,
+      );
+    }
+
+    return unit;
   }
 
-  async createBomLink(input: CreateBomLinkInput): Promise<BomLink> {
-    const [parent, child] = await Promise.all([
-      this.requirePart(input.parentId),
-      this.requirePart(input.childId),
-    ]);
+  private assertLinkQuantityIsValid(quantity: number, unit: string): void {
+    if (getUnitDimension(unit) === 'COUNT') {
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new BadRequestException(
+          'BOM quantity must be a positive integer.',
+        );
+      }
+    } else if (
+      typeof quantity !== 'number' ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0
+    ) {
+      throw new BadRequestException('BOM quantity must be a positive number.');
+    }
 
-    if (parent.id === child.id) {
+    const value = new Prisma.Decimal(quantity);
+    if (value.decimalPlaces() > BOM_QUANTITY_SCALE) {
       throw new BadRequestException(
-        'A part cannot be linked to itself in BOM.',
+        `BOM quantity can have at most ${BOM_QUANTITY_SCALE} decimal places.`,
       );
     }
 
-    const quantity = input.quantity ?? 1;
-    if (!Number.isInteger(quantity) || quantity <= 0) {
-      throw new BadRequestException('BOM quantity must be a positive integer.');
+    if (value.greaterThan(MAX_BOM_QUANTITY)) {
+      throw new BadRequestException(
+        `BOM quantity must be at most ${MAX_BOM_QUANTITY}.`,
+      );
     }
+  }
 
-    const existing = await this.prisma.bomLink.findUnique({
+  private async getBomLines(
+    parentId: string,
+    revision: string,
+  ): Promise<BomLine[]> {
+    const rows = await this.prisma.bomLink.findMany({
       where: {
-        parentId_childId: {
-          parentId: parent.id,
-          childId: child.id,
-        },
+        parentId,
+        revision,
       },
       select: {
-        parentId: true,
+        childId: true,
+        findNumber: true,
+        referenceDesignators: true,
+        child: {
+          select: {
+            partNumber: true,
+          },
+        },
       },
     });
 
-    if (existing) {
-      throw new BadRequestException(
-        `BOM link already exists between ${parent.partNumber} and ${child.partNumber}.`,
-      );
+    return rows.map((row) => ({
+      childId: row.childId,
+      partNumber: row.child.partNumber,
+      findNumber: row.findNumber,
+      referenceDesignators: row.referenceDesignators,
+    }));
+  }
+
+  private resolveBomLinePosition(
+    input: { findNumber?: number; referenceDesignators?: string[] },
+    quantity: number,
+    parentPartNumber: string,
+    childId: string,
+    lines: BomLine[],
+    current?: BomLinePosition,
+  ): BomLinePosition {
+    const otherLines = lines.filter((line) => line.childId !== childId);
+    const findNumber =
+      input.findNumber ??
+      current?.findNumber ??
+      lines.find((line) => line.childId === childId)?.findNumber ??
+      this.nextFindNumber(lines);
+
+    if (!Number.isInteger(findNumber) || findNumber <= 0) {
+      throw new BadRequestException('Find number must be a positive integer.');
     }
 
-    if (await this.isReachable(child.id, parent.id)) {
+    const findNumberOwner = otherLines.find(
+      (line) => line.findNumber === findNumber,
+    );
+    if (findNumberOwner) {
       throw new BadRequestException(
-        'BOM link creation failed because it would introduce a cycle.',
+        `Find number ${findNumber} is already used by ${findNumberOwner.partNumber} in ${parentPartNumber}.`,
       );
     }
 
-    const createdLink = await this.prisma.$transaction(async (tx) => {
-      const link = await tx.bomLink.create({
-        data: {
-          parentId: parent.id,
-          childId: child.id,
-          quantity,
-        },
-      });
+    const referenceDesignators =
+      input.referenceDesignators === undefined
+        ? (current?.referenceDesignators ?? [])
+        : this.normalizeReferenceDesignators(input.referenceDesignators);
 
-      await this.writeAudit(
-        tx,
-        parent.id,
-        'BOM_LINK_CREATED',
-        `Linked child ${child.partNumber} to ${parent.partNumber}.`,
-        {
-          childId: child.id,
-          quantity,
-        },
+    for (const designator of referenceDesignators) {
+      const designatorOwner = otherLines.find((line) =>
+        line.referenceDesignators.includes(designator),
       );
+      if (designatorOwner) {
+        throw new BadRequestException(
+          `Reference designator ${designator} is already used by ${designatorOwner.partNumber} in ${parentPartNumber}.`,
+        );
+      }
+    }
 
-      await this.writeAudit(
-        tx,
-        child.id,
-        'BOM_LINK_CREATED',
-        `Linked as child of ${parent.partNumber}.`,
-        {
-          parentId: parent.id,
-          quantity,
-        },
+    if (
+      referenceDesignators.length > 0 &&
+      referenceDesignators.length !== quantity
+    ) {
+      throw new BadRequestException(
+        `BOM line has ${referenceDesignators.length} reference designator(s) but quantity ${quantity}.`,
       );
+    }
 
-      return link;
-    });
+    return { findNumber, referenceDesignators };
+  }
 
-    return this.toBomLink(createdLink);
+  private nextFindNumber(lines: BomLine[]): number {
+    const highest = Math.max(0, ...lines.map((line) => line.findNumber));
+    return (
+      Math.floor(highest / FIND_NUMBER_STEP) * FIND_NUMBER_STEP +
+      FIND_NUMBER_STEP
+    );
   }
 
-  async updateBomLink(input: UpdateBomLinkInput): Promise<BomLink> {
-    const [parent, child] = await Promise.all([
-      this.requirePart(input.parentId),
-      this.requirePart(input.childId),
-    ]);
+  private normalizeReferenceDesignators(designators: string[]): string[] {
+    const normalized: string[] = [];
+
+    for (const designator of designators) {
+      const value =
+        typeof designator === 'string' ? designator.trim().toUpperCase() : '';
+      if (!/^[A-Z0-9_.-]+$/.test(value)) {
+        throw new BadRequestException(
+          `Reference designator '${String(designator)}' is invalid.`,
+        );
+      }
+
+      if (normalized.includes(value)) {
+        throw new BadRequestException(
+          `Reference designator ${value} appears more than once.`,
+        );
+      }
+
+      normalized.push(value);
+    }
+
+    return normalized;
+  }
+
+  private toBomLineMetadata(
+    position: BomLinePosition,
+  ): Record<string, string | number> {
+    const metadata: Record<string, string | number> = {
+      findNumber: position.findNumber,
+    };
 
-    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
-      throw new BadRequestException('BOM quantity must be a positive integer.');
+    if (position.referenceDesignators.length > 0) {
+      metadata.referenceDesignators = position.referenceDesignators.join(',');
     }
 
-    const existingLink = await this.prisma.bomLink.findUnique({
+    return metadata;
+  }
+
+  private diffBomLinePosition(
+    before: BomLinePosition,
+    after: BomLinePosition | null,
+  ): AuditChanges {
+    return {
+      findNumber: {
+        from: before.findNumber,
+        to: after?.findNumber ?? null,
+      },
+      referenceDesignators: {
+        from: before.referenceDesignators.join(',') || null,
+        to: after?.referenceDesignators.join(',') || null,
+      },
+    };
+  }
+
+  private async assertUnitFitsParentLinks(
+    part: Part,
+    nextUnit: string,
+  ): Promise<void> {
+    const linkUnits = await this.prisma.bomLink.findMany({
       where: {
-        parentId_childId: {
-          parentId: parent.id,
-          childId: child.id,
-        },
+        childId: part.id,
+      },
+      distinct: ['unit'],
+      select: {
+        unit: true,
       },
     });
 
-    if (!existingLink) {
-      throw new NotFoundException(
-        `No BOM link exists between ${parent.partNumber} and ${child.partNumber}.`,
+    const incompatibleUnits = linkUnits
+      .map((row) => row.unit)
+      .filter((unit) => !areUnitsCompatible(unit, nextUnit));
+
+    if (incompatibleUnits.length > 0) {
+      throw new BadRequestException(
+        `Base unit of part ${part.partNumber} cannot change to ${nextUnit} because BOM links use ${incompatibleUnits.join(', ')}.`,
       );
     }
+  }
 
-    const updatedLink = await this.prisma.$transaction(async (tx) => {
-      const link = await tx.bomLink.update({
-        where: {
-          parentId_childId: {
-            parentId: parent.id,
-            childId: child.id,
-          },
-        },
-        data: {
-          quantity: input.quantity,
-        },
-      });
+  private resolvePartCost(
+    unitCostInput: number | null | undefined,
+    currencyInput: string | undefined,
+    current: PartCost = { unitCost: null, currency: null },
+  ): PartCost {
+    let unitCost = current.unitCost;
+    if (unitCostInput !== undefined) {
+      if (
+        unitCostInput !== null &&
+        (typeof unitCostInput !== 'number' ||
+          !Number.isFinite(unitCostInput) ||
+          unitCostInput < 0)
+      ) {
+        throw new BadRequestException('Unit cost must be a number >= 0.');
+      }
 
-      await this.writeAudit(
-        tx,
-        parent.id,
-        'BOM_LINK_UPDATED',
-        `Updated quantity for child ${child.partNumber} in ${parent.partNumber}.`,
-        {
-          childId: child.id,
-          quantity: input.quantity,
-        },
-      );
+      unitCost = unitCostInput;
+    }
 
-      await this.writeAudit(
-        tx,
-        child.id,
-        'BOM_LINK_UPDATED',
-        `Updated quantity in parent ${parent.partNumber}.`,
-        {
-          parentId: parent.id,
-          quantity: input.quantity,
-        },
-      );
+    let currency = current.currency;
+    if (currencyInput !== undefined) {
+      const normalizedCurrency = currencyInput.trim().toUpperCase();
+      if (!/^[A-Z]{3}$/.test(normalizedCurrency)) {
+        throw new BadRequestException(
+          'Currency must be a 3-letter ISO 4217 code.',
+        );
+      }
 
-      return link;
-    });
+      currency = normalizedCurrency;
+    }
 
-    return this.toBomLink(updatedLink);
+    if (unitCost !== null && currency === null) {
+      currency = DEFAULT_CURRENCY;
+    }
+
+    return { unitCost, currency };
   }
 
-  async removeBomLink(parentId: string, childId: string): Promise<void> {
-    const [parent, child] = await Promise.all([
-      this.requirePart(parentId),
-      this.requirePart(childId),
-    ]);
+  private roundCost(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
 
-    const link = await this.prisma.bomLink.findUnique({
-      where: {
-        parentId_childId: {
-          parentId: parent.id,
-          childId: child.id,
+  private toRevisionCode(sequence: number): string {
+    let remaining = sequence;
+    let code = '';
+
+    while (remaining > 0) {
+      const letterIndex = (remaining - 1) % 26;
+      code = String.fromCharCode(65 + letterIndex) + code;
+      remaining = Math.floor((remaining - 1) / 26);
+    }
+
+    return code;
+  }
+
+  private allocatePartId(): string {
+    const id = `PART-${String(this.partIdSequence).padStart(4, '0')}`;
+    this.partIdSequence += 1;
+    return id;
+  }
+
+  private allocateBomLinkId(): string {
+    const id = `LNK-${String(this.bomLinkSequence).padStart(6, '0')}`;
+    this.bomLinkSequence += 1;
+    return id;
+  }
+
+  private allocateBomAlternateId(): string {
+    const id = `ALT-${String(this.bomAlternateSequence).padStart(6, '0')}`;
+    this.bomAlternateSequence += 1;
+    return id;
+  }
+
+  private allocateCategoryId(): string {
+    const id = `CAT-${String(this.categorySequence).padStart(6, '0')}`;
+    this.categorySequence += 1;
+    return id;
+  }
+
+  private allocateAuditLogId(): string {
+    const id = `AUD-${String(this.auditLogSequence).padStart(6, '0')}`;
+    this.auditLogSequence += 1;
+    return id;
+  }
+
+  private async allocatePartNumber(): Promise<string> {
+    while (true) {
+      const candidate = `PRT-${String(this.partNumberSequence).padStart(6, '0')}`;
+      this.partNumberSequence += 1;
+
+      const existing = await this.prisma.part.findUnique({
+        where: {
+          partNumber: candidate,
         },
+        select: {
+          id: true,
+        },
+      });
+
+      if (!existing) {
+        return candidate;
+      }
+    }
+  }
+
+  private async assertPartNumberIsAvailable(
+    partNumber: string,
+    excludedPartId?: string,
+  ): Promise<void> {
+    const existing = await this.prisma.part.findUnique({
+      where: {
+        partNumber,
       },
       select: {
-        parentId: true,
+        id: true,
       },
     });
 
-    if (!link) {
-      throw new NotFoundException(
-        `No BOM link exists between ${parent.partNumber} and ${child.partNumber}.`,
+    if (existing && existing.id !== excludedPartId) {
+      throw new BadRequestException(
+        `Part number '${partNumber}' already exists.`,
       );
     }
+  }
 
-    await this.prisma.$transaction(async (tx) => {
-      await tx.bomLink.delete({
-        where: {
-          parentId_childId: {
-            parentId: parent.id,
-            childId: child.id,
-          },
-        },
-      });
+  private updatePartNumberSequence(partNumber: string): void {
+    const matches = /^PRT-(\d+)$/.exec(partNumber);
+    if (!matches) {
+      return;
+    }
 
-      await this.writeAudit(
-        tx,
-        parent.id,
-        'BOM_LINK_REMOVED',
-        `Removed child ${child.partNumber} from ${parent.partNumber}.`,
-        {
-          childId: child.id,
-        },
-      );
+    const parsedValue = Number.parseInt(matches[1], 10);
+    if (Number.isNaN(parsedValue)) {
+      return;
+    }
 
-      await this.writeAudit(
-        tx,
-        child.id,
-        'BOM_LINK_REMOVED',
-        `Removed parent ${parent.partNumber}.`,
-        {
-          parentId: parent.id,
-        },
-      );
-    });
+    this.partNumberSequence = Math.max(
+      this.partNumberSequence,
+      parsedValue + 1,
+    );
   }
 
-  async getBomTree(
-    rootPartId: string,
-    depth = 1,
-    nodeLimit = this.maxExpandNodeLimit,
-  ): Promise<BomTreeResponse> {
-    await this.requirePart(rootPartId);
-
+  private assertExpandLimits(depth: number, nodeLimit: number): void {
     if (!Number.isInteger(depth) || depth < 0) {
       throw new BadRequestException('Depth must be an integer >= 0.');
     }
@@ -653,209 +6089,603 @@ export class PartBomStoreService implements OnModuleInit {
         `Node limit too large. Maximum supported node limit is ${this.maxExpandNodeLimit}.`,
       );
     }
+  }
 
-    let nodeCount = 0;
-    const partCache = new Map<string, Part>();
-    const childLinksCache = new Map<string, BomLink[]>();
+  private assertBomIsEditable(
+    parent: Pick<Part, 'partNumber' | 'status'>,
+    allowReleasedEdit = false,
+  ): void {
+    if (parent.status === 'RELEASED' && !allowReleasedEdit) {
+      throw new BadRequestException(
+        `Part ${parent.partNumber} is RELEASED. Set allowReleasedEdit to change its BOM.`,
+      );
+    }
+  }
 
-    const getPart = async (partId: string): Promise<Part> => {
-      const cachedPart = partCache.get(partId);
-      if (cachedPart) {
-        return cachedPart;
-      }
+  private assertPartVersion(part: Part, expectedVersion: number): void {
+    if (part.version !== expectedVersion) {
+      throw new PreconditionFailedException({
+        statusCode: 412,
+        error: 'Precondition Failed',
+        message: `Part ${part.partNumber} is at version ${part.version}, not ${expectedVersion}. Reload it and retry.`,
+        current: part,
+      });
+    }
+  }
 
-      const part = await this.requirePart(partId);
-      partCache.set(partId, part);
-      return part;
-    };
+  private assertBomLinkVersion(link: BomLink, expectedVersion: number): void {
+    if (link.version !== expectedVersion) {
+      throw new PreconditionFailedException({
+        statusCode: 412,
+        error: 'Precondition Failed',
+        message: `BOM link ${link.id} is at version ${link.version}, not ${expectedVersion}. Reload it and retry.`,
+        current: link,
+      });
+    }
+  }
 
-    const getChildLinks = async (partId: string): Promise<BomLink[]> => {
-      const cachedLinks = childLinksCache.get(partId);
-      if (cachedLinks) {
-        return cachedLinks;
+  private async getCloneSourceLinks(
+    part: Part,
+  ): Promise<PrismaCloneSourceLinkRecord[]> {
+    return this.prisma.bomLink.findMany({
+      where: {
+        parentId: part.id,
+        revision: part.revision,
+      },
+      include: {
+        child: true,
+        alternates: {
+          select: {
+            partId: true,
+            alternatePartId: true,
+            rank: true,
+          },
+        },
+      },
+      orderBy: [
+        {
+          findNumber: 'asc',
+        },
+        {
+          createdAt: 'asc',
+        },
+      ],
+    });
+  }
+
+  private async getBatchBomLinks(parent: Part): Promise<BatchBomLink[]> {
+    const rows = await this.prisma.bomLink.findMany({
+      where: {
+        parentId: parent.id,
+        revision: parent.revision,
+      },
+      include: {
+        child: {
+          select: {
+            partNumber: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    return rows.map(({ child, ...row }) => ({
+      row,
+      childId: row.childId,
+      partNumber: child.partNumber,
+      findNumber: row.findNumber,
+      referenceDesignators: row.referenceDesignators,
+      effectiveFrom: row.effectiveFrom,
+      effectiveTo: row.effectiveTo,
+    }));
+  }
+
+  private planBatchOperation(
+    index: number,
+    operation: BomLinkBatchOperationInput,
+    parent: Part,
+    child: Part,
+    lines: BatchBomLink[],
+  ): PlannedBatchOperation {
+    if (operation.op === 'create') {
+      if (parent.id === child.id) {
+        throw new BadRequestException(
+          'A part cannot be linked to itself in BOM.',
+        );
       }
 
-      const links = await this.getChildLinks(partId);
-      childLinksCache.set(partId, links);
-      return links;
-    };
+      const unit = this.resolveLinkUnit(operation.unit, child.unit, child);
+      const quantity = operation.quantity ?? 1;
+      this.assertLinkQuantityIsValid(quantity, unit);
 
-    const buildNode = async (
-      partId: string,
-      currentDepth: number,
-      quantityFromParent: number | undefined,
-      path: Set<string>,
-    ): Promise<BomTreeNode> => {
-      if (nodeCount >= nodeLimit) {
+      if (child.status === 'OBSOLETE') {
         throw new BadRequestException(
-          `BOM expansion exceeded node limit of ${nodeLimit}. Reduce depth or load incrementally.`,
+          `Obsolete part ${child.partNumber} cannot be added to a BOM.`,
         );
       }
 
-      nodeCount += 1;
+      const effectivity = this.resolveEffectivity(operation);
+      this.assertEffectivityIsFree(
+        parent,
+        child,
+        effectivity,
+        lines.filter((line) => line.childId === child.id),
+      );
 
-      const part = await getPart(partId);
-      const childLinks = await getChildLinks(partId);
-      const children: BomTreeNode[] = [];
+      const position = this.resolveBomLinePosition(
+        operation,
+        quantity,
+        parent.partNumber,
+        child.id,
+        lines,
+      );
 
-      if (currentDepth < depth) {
-        for (const link of childLinks) {
-          if (path.has(link.childId)) {
-            continue;
-          }
+      lines.push({
+        ...position,
+        ...effectivity,
+        childId: child.id,
+        partNumber: child.partNumber,
+        plannedBy: index,
+      });
 
-          const nextPath = new Set(path);
-          nextPath.add(link.childId);
+      return {
+        index,
+        op: 'create',
+        parent,
+        child,
+        values: {
+          quantity,
+          unit,
+          ...position,
+          ...effectivity,
+        },
+      };
+    }
 
-          children.push(
-            await buildNode(
-              link.childId,
-              currentDepth + 1,
-              link.quantity,
-              nextPath,
-            ),
-          );
-        }
-      }
+    const link = this.requireBatchBomLink(parent, child, operation, lines);
+    const row = link.row as PrismaBomLinkRecord;
 
-      const node: BomTreeNode = {
-        part: this.toPartSummary(part),
-        hasChildren: childLinks.length > 0,
-        children,
+    if (operation.op === 'update' && operation.expectedVersion === undefined) {
+      throw new BadRequestException('Updates require a version.');
+    }
+
+    if (operation.expectedVersion !== undefined) {
+      this.assertBomLinkVersion(this.toBomLink(row), operation.expectedVersion);
+    }
+
+    if (operation.op === 'remove') {
+      lines.splice(lines.indexOf(link), 1);
+
+      return {
+        index,
+        op: 'remove',
+        parent,
+        child,
+        row,
       };
+    }
 
-      if (quantityFromParent !== undefined) {
-        node.quantityFromParent = quantityFromParent;
-      }
+    const unit = this.resolveLinkUnit(operation.unit, row.unit, child);
+    const quantity = operation.quantity ?? row.quantity.toNumber();
+    this.assertLinkQuantityIsValid(quantity, unit);
+
+    const effectivity = this.resolveEffectivity(operation, row);
+    this.assertEffectivityIsFree(
+      parent,
+      child,
+      effectivity,
+      lines.filter(
+        (line) => line.childId === child.id && line.row?.id !== row.id,
+      ),
+    );
 
-      return node;
+    const position = this.resolveBomLinePosition(
+      operation,
+      quantity,
+      parent.partNumber,
+      child.id,
+      lines,
+      row,
+    );
+    const values: BomLinkValues = {
+      quantity,
+      unit,
+      ...position,
+      ...effectivity,
     };
 
-    const tree = await buildNode(
-      rootPartId,
-      0,
-      undefined,
-      new Set([rootPartId]),
-    );
+    Object.assign(link, position, effectivity, { plannedBy: index });
 
     return {
-      rootPartId,
-      requestedDepth: depth,
-      nodeLimit,
-      nodeCount,
-      tree,
+      index,
+      op: 'update',
+      parent,
+      child,
+      row,
+      values,
+      changes: this.diffBomLink(row, values),
     };
   }
 
-  private async requirePart(partId: string): Promise<Part> {
-    const row = await this.prisma.part.findUnique({
+  private requireBatchBomLink(
+    parent: Part,
+    child: Part,
+    operation: BomLinkBatchOperationInput,
+    lines: BatchBomLink[],
+  ): BatchBomLink {
+    const links = lines.filter((line) => line.childId === child.id);
+    const link = operation.linkId
+      ? links.find((candidate) => candidate.row?.id === operation.linkId)
+      : links.at(0);
+
+    if (!link) {
+      throw new NotFoundException(
+        `No BOM link exists between ${parent.partNumber} and ${child.partNumber}.`,
+      );
+    }
+
+    if (!operation.linkId && links.length > 1) {
+      throw new BadRequestException(
+        `BOM link between ${parent.partNumber} and ${child.partNumber} has ${links.length} effectivity periods. Specify linkId.`,
+      );
+    }
+
+    if (link.plannedBy !== undefined) {
+      throw new BadRequestException(
+        `BOM link between ${parent.partNumber} and ${child.partNumber} is already changed by operation ${link.plannedBy}.`,
+      );
+    }
+
+    return link;
+  }
+
+  private async applyBatchOperation(
+    tx: TxClient,
+    operation: PlannedBatchOperation,
+  ): Promise<AppliedBatchOperation> {
+    const { parent, child, row, values, auditMetadata } = operation;
+
+    if (operation.op === 'create') {
+      const link = await tx.bomLink.create({
+        data: {
+          id: this.allocateBomLinkId(),
+          parentId: parent.id,
+          revision: parent.revision,
+          childId: child.id,
+          ...(values as BomLinkValues),
+        },
+      });
+
+      await this.writeBomLinkCreatedAudits(
+        tx,
+        parent,
+        child,
+        link,
+        auditMetadata,
+      );
+      return { operation, link, removedAlternates: [] };
+    }
+
+    const existingLink = row as PrismaBomLinkRecord;
+
+    if (operation.op === 'remove') {
+      const removedAlternates = await this.deleteBomLinkRow(
+        tx,
+        parent,
+        child,
+        existingLink,
+        auditMetadata,
+      );
+      return { operation, link: existingLink, removedAlternates };
+    }
+
+    const claimed = await tx.bomLink.updateMany({
       where: {
-        id: partId,
+        id: existingLink.id,
+        version: existingLink.version,
+      },
+      data: {
+        ...values,
+        version: {
+          increment: 1,
+        },
       },
     });
 
-    if (!row) {
-      throw new NotFoundException(`Part '${partId}' was not found.`);
+    if (claimed.count === 0) {
+      this.assertBomLinkVersion(
+        await this.getBomLink(existingLink.id),
+        existingLink.version,
+      );
     }
 
-    return this.toPart(row);
+    const link = await tx.bomLink.findUniqueOrThrow({
+      where: {
+        id: existingLink.id,
+      },
+    });
+
+    await this.writeBomLinkUpdatedAudits(
+      tx,
+      parent,
+      child,
+      link,
+      operation.changes ?? {},
+    );
+    return { operation, link, removedAlternates: [] };
   }
 
-  private async getChildLinks(parentId: string): Promise<BomLink[]> {
-    const rows = await this.prisma.bomLink.findMany({
+  private async deleteBomLinkRow(
+    tx: TxClient,
+    parent: Part,
+    child: Part,
+    link: PrismaBomLinkRecord,
+    auditMetadata?: Record<string, string | number>,
+  ): Promise<PrismaBomAlternateRecord[]> {
+    const lineAlternates = await tx.bomAlternate.findMany({
       where: {
-        parentId,
+        linkId: link.id,
       },
-      orderBy: {
-        child: {
-          partNumber: 'asc',
+      include: {
+        alternatePart: {
+          select: {
+            id: true,
+            partNumber: true,
+            name: true,
+          },
         },
       },
+      orderBy: {
+        rank: 'asc',
+      },
     });
 
-    return rows.map((row) => this.toBomLink(row));
+    await tx.bomLink.delete({
+      where: {
+        id: link.id,
+      },
+    });
+
+    await this.writeBomLinkRemovedAudits(
+      tx,
+      parent,
+      child,
+      link,
+      undefined,
+      auditMetadata,
+    );
+
+    for (const alternate of lineAlternates) {
+      await this.writeAlternateRemovedAudit(
+        tx,
+        child,
+        alternate,
+        { linkId: link.id, parent },
+        'because the BOM line was removed',
+      );
+    }
+
+    return lineAlternates;
   }
 
-  private toPartSummary(part: Part): PartSummary {
-    return {
-      id: part.id,
-      partNumber: part.partNumber,
-      name: part.name,
-    };
+  private async collectBatchOperationError(
+    errors: BomLinkBatchError[],
+    index: number,
+    check: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await check();
+    } catch (error) {
+      if (
+        !(error instanceof BadRequestException) &&
+        !(error instanceof NotFoundException)
+      ) {
+        throw error;
+      }
+
+      errors.push({
+        index,
+        message: error.message,
+      });
+    }
   }
 
-  private allocatePartId(): string {
-    const id = `PART-${String(this.partIdSequence).padStart(4, '0')}`;
-    this.partIdSequence += 1;
-    return id;
-  }
+  private async requireBomLink(parent: Part, child: Part, linkId?: string) {
+    const links = await this.prisma.bomLink.findMany({
+      where: {
+        parentId: parent.id,
+        revision: parent.revision,
+        childId: child.id,
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    const link = linkId
+      ? links.find((candidate) => candidate.id === linkId)
+      : links.at(0);
+
+    if (!link) {
+      throw new NotFoundException(
+        `No BOM link exists between ${parent.partNumber} and ${child.partNumber}.`,
+      );
+    }
+
+    if (!linkId && links.length > 1) {
+      throw new BadRequestException(
+        `BOM link between ${parent.partNumber} and ${child.partNumber} has ${links.length} effectivity periods. Specify linkId.`,
+      );
+    }
 
-  private allocateAuditLogId(): string {
-    const id = `AUD-${String(this.auditLogSequence).padStart(6, '0')}`;
-    this.auditLogSequence += 1;
-    return id;
+    return link;
   }
 
-  private async allocatePartNumber(): Promise<string> {
-    while (true) {
-      const candidate = `PRT-${String(this.partNumberSequence).padStart(6, '0')}`;
-      this.partNumberSequence += 1;
-
-      const existing = await this.prisma.part.findUnique({
-        where: {
-          partNumber: candidate,
-        },
-        select: {
-          id: true,
-        },
-      });
+  private resolveEffectivity(
+    input: { effectiveFrom?: Date | null; effectiveTo?: Date | null },
+    current: Effectivity = { effectiveFrom: null, effectiveTo: null },
+  ): Effectivity {
+    const effectivity: Effectivity = {
+      effectiveFrom:
+        input.effectiveFrom === undefined
+          ? current.effectiveFrom
+          : input.effectiveFrom,
+      effectiveTo:
+        input.effectiveTo === undefined
+          ? current.effectiveTo
+          : input.effectiveTo,
+    };
 
-      if (!existing) {
-        return candidate;
-      }
+    if (
+      effectivity.effectiveFrom &&
+      effectivity.effectiveTo &&
+      effectivity.effectiveTo <= effectivity.effectiveFrom
+    ) {
+      throw new BadRequestException('effectiveTo must be after effectiveFrom.');
     }
+
+    return effectivity;
   }
 
-  private async assertPartNumberIsAvailable(
-    partNumber: string,
-    excludedPartId?: string,
+  private async assertNoOverlappingLink(
+    parent: Part,
+    child: Part,
+    effectivity: Effectivity,
+    excludedLinkId?: string,
   ): Promise<void> {
-    const existing = await this.prisma.part.findUnique({
+    const links = await this.prisma.bomLink.findMany({
       where: {
-        partNumber,
+        parentId: parent.id,
+        revision: parent.revision,
+        childId: child.id,
+        id: excludedLinkId
+          ? {
+              not: excludedLinkId,
+            }
+          : undefined,
       },
       select: {
-        id: true,
+        effectiveFrom: true,
+        effectiveTo: true,
       },
     });
 
-    if (existing && existing.id !== excludedPartId) {
-      throw new BadRequestException(
-        `Part number '${partNumber}' already exists.`,
-      );
-    }
+    this.assertEffectivityIsFree(parent, child, effectivity, links);
   }
 
-  private updatePartNumberSequence(partNumber: string): void {
-    const matches = /^PRT-(\d+)$/.exec(partNumber);
-    if (!matches) {
+  private assertEffectivityIsFree(
+    parent: Pick<Part, 'partNumber'>,
+    child: Pick<Part, 'partNumber'>,
+    effectivity: Effectivity,
+    links: Effectivity[],
+  ): void {
+    const overlappingLink = links.find(
+      (link) =>
+        (!link.effectiveTo ||
+          !effectivity.effectiveFrom ||
+          effectivity.effectiveFrom < link.effectiveTo) &&
+        (!effectivity.effectiveTo ||
+          !link.effectiveFrom ||
+          link.effectiveFrom < effectivity.effectiveTo),
+    );
+
+    if (!overlappingLink) {
       return;
     }
 
-    const parsedValue = Number.parseInt(matches[1], 10);
-    if (Number.isNaN(parsedValue)) {
-      return;
+    const isOpenEnded =
+      !overlappingLink.effectiveFrom &&
+      !overlappingLink.effectiveTo &&
+      !effectivity.effectiveFrom &&
+      !effectivity.effectiveTo;
+
+    throw new BadRequestException(
+      isOpenEnded
+        ? `BOM link already exists between ${parent.partNumber} and ${child.partNumber}.`
+        : `BOM link between ${parent.partNumber} and ${child.partNumber} overlaps an existing effectivity period.`,
+    );
+  }
+
+  private diffEffectivity(
+    before: Effectivity,
+    after: Effectivity,
+  ): AuditChanges {
+    const changes: AuditChanges = {};
+
+    for (const field of ['effectiveFrom', 'effectiveTo'] as const) {
+      const from = before[field]?.toISOString() ?? null;
+      const to = after[field]?.toISOString() ?? null;
+
+      if (from !== to) {
+        changes[field] = { from, to };
+      }
     }
 
-    this.partNumberSequence = Math.max(
-      this.partNumberSequence,
-      parsedValue + 1,
+    return changes;
+  }
+
+  private toEffectivityMetadata(
+    effectivity: Effectivity,
+  ): Record<string, string> {
+    const metadata: Record<string, string> = {};
+
+    if (effectivity.effectiveFrom) {
+      metadata.effectiveFrom = effectivity.effectiveFrom.toISOString();
+    }
+
+    if (effectivity.effectiveTo) {
+      metadata.effectiveTo = effectivity.effectiveTo.toISOString();
+    }
+
+    return metadata;
+  }
+
+  private effectiveAtFilter(effectiveAt: Date): Prisma.BomLinkWhereInput {
+    return {
+      AND: [
+        {
+          OR: [
+            {
+              effectiveFrom: null,
+            },
+            {
+              effectiveFrom: {
+                lte: effectiveAt,
+              },
+            },
+          ],
+        },
+        {
+          OR: [
+            {
+              effectiveTo: null,
+            },
+            {
+              effectiveTo: {
+                gt: effectiveAt,
+              },
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  private isEffectiveAt(link: BomLink, effectiveAt: Date): boolean {
+    return (
+      (!link.effectiveFrom || new Date(link.effectiveFrom) <= effectiveAt) &&
+      (!link.effectiveTo || new Date(link.effectiveTo) > effectiveAt)
     );
   }
 
   private async isReachable(
     startPartId: string,
     targetPartId: string,
+    pendingChildIds?: Map<string, string[]>,
+    removedLinkIds?: Set<string>,
+    client: TxClient = this.prisma,
   ): Promise<boolean> {
     const stack: string[] = [startPartId];
     const visited = new Set<string>();
@@ -875,33 +6705,219 @@ export class PartBomStoreService implements OnModuleInit {
 
       let childIds = childIdsCache.get(partId);
       if (!childIds) {
-        const childRows = await this.prisma.bomLink.findMany({
-          where: {
-            parentId: partId,
-          },
-          select: {
-            childId: true,
-          },
-        });
-
-        childIds = childRows.map((row) => row.childId);
+        const [childRows, alternateRows] = await Promise.all([
+          client.bomLink.findMany({
+            where: {
+              parentId: partId,
+            },
+            select: {
+              id: true,
+              childId: true,
+            },
+          }),
+          client.bomAlternate.findMany({
+            where: {
+              partId,
+              linkId: null,
+            },
+            select: {
+              alternatePartId: true,
+            },
+          }),
+        ]);
+
+        childIds = [
+          ...childRows
+            .filter((row) => !removedLinkIds?.has(row.id))
+            .map((row) => row.childId),
+          ...alternateRows.map((row) => row.alternatePartId),
+        ];
         childIdsCache.set(partId, childIds);
       }
 
       for (const childId of childIds) {
         stack.push(childId);
       }
+
+      for (const childId of pendingChildIds?.get(partId) ?? []) {
+        stack.push(childId);
+      }
     }
 
     return false;
   }
 
+  private async writeBomLinkCreatedAudits(
+    tx: TxClient,
+    parent: Pick<Part, 'id' | 'partNumber' | 'revision'>,
+    child: Pick<Part, 'id' | 'partNumber'>,
+    link: PrismaBomLinkRecord,
+    extraMetadata?: Record<string, string | number>,
+  ): Promise<void> {
+    const metadata = {
+      ...this.toBomLinkAuditMetadata(link),
+      ...extraMetadata,
+    };
+
+    await this.writeAudit(
+      tx,
+      parent.id,
+      'BOM_LINK_CREATED',
+      `Linked child ${child.partNumber} to ${parent.partNumber}.`,
+      {
+        linkId: link.id,
+        childId: child.id,
+        revision: parent.revision,
+        ...metadata,
+      },
+    );
+
+    await this.writeAudit(
+      tx,
+      child.id,
+      'BOM_LINK_CREATED',
+      `Linked as child of ${parent.partNumber}.`,
+      {
+        linkId: link.id,
+        parentId: parent.id,
+        revision: parent.revision,
+        ...metadata,
+      },
+    );
+  }
+
+  private async writeBomLinkUpdatedAudits(
+    tx: TxClient,
+    parent: Part,
+    child: Part,
+    link: PrismaBomLinkRecord,
+    changes: AuditChanges,
+  ): Promise<void> {
+    const metadata = this.toBomLinkAuditMetadata(link);
+
+    await this.writeAudit(
+      tx,
+      parent.id,
+      'BOM_LINK_UPDATED',
+      `Updated quantity for child ${child.partNumber} in ${parent.partNumber}.`,
+      {
+        linkId: link.id,
+        childId: child.id,
+        revision: parent.revision,
+        ...metadata,
+      },
+      changes,
+    );
+
+    await this.writeAudit(
+      tx,
+      child.id,
+      'BOM_LINK_UPDATED',
+      `Updated quantity in parent ${parent.partNumber}.`,
+      {
+        linkId: link.id,
+        parentId: parent.id,
+        revision: parent.revision,
+        ...metadata,
+      },
+      changes,
+    );
+  }
+
+  private async writeBomLinkRemovedAudits(
+    tx: TxClient,
+    parent: Part,
+    child: Part,
+    link: PrismaBomLinkRecord,
+    reason?: string,
+    extraMetadata?: Record<string, string | number>,
+  ): Promise<void> {
+    const suffix = reason ? ` ${reason}` : '';
+    const changes: AuditChanges = {
+      quantity: {
+        from: link.quantity.toNumber(),
+        to: null,
+      },
+      unit: {
+        from: link.unit,
+        to: null,
+      },
+      createdAt: {
+        from: link.createdAt.toISOString(),
+        to: null,
+      },
+      ...this.diffBomLinePosition(link, null),
+      ...this.diffEffectivity(link, {
+        effectiveFrom: null,
+        effectiveTo: null,
+      }),
+    };
+
+    await this.writeAudit(
+      tx,
+      parent.id,
+      'BOM_LINK_REMOVED',
+      `Removed child ${child.partNumber} from ${parent.partNumber}${suffix}.`,
+      {
+        linkId: link.id,
+        childId: child.id,
+        revision: link.revision,
+        ...extraMetadata,
+      },
+      changes,
+    );
+
+    await this.writeAudit(
+      tx,
+      child.id,
+      'BOM_LINK_REMOVED',
+      `Removed parent ${parent.partNumber}${suffix}.`,
+      {
+        linkId: link.id,
+        parentId: parent.id,
+        revision: link.revision,
+        ...extraMetadata,
+      },
+      changes,
+    );
+  }
+
+  private diffBomLink(
+    before: PrismaBomLinkRecord,
+    after: BomLinkValues,
+  ): AuditChanges {
+    return {
+      quantity: {
+        from: before.quantity.toNumber(),
+        to: after.quantity,
+      },
+      unit: {
+        from: before.unit,
+        to: after.unit,
+      },
+      ...this.diffBomLinePosition(before, after),
+      ...this.diffEffectivity(before, after),
+    };
+  }
+
+  private toBomLinkAuditMetadata(
+    link: PrismaBomLinkRecord,
+  ): Record<string, string | number> {
+    return {
+      quantity: link.quantity.toNumber(),
+      unit: link.unit,
+      ...this.toBomLineMetadata(link),
+      ...this.toEffectivityMetadata(link),
+    };
+  }
+
   private async writeAudit(
     tx: TxClient,
     partId: string,
     action: AuditAction,
     message: string,
     metadata?: Record<string, string | number>,
+    changes?: AuditChanges,
   ): Promise<void> {
     await tx.auditLog.create({
       data: {
@@ -911,27 +6927,53 @@ export class PartBomStoreService implements OnModuleInit {
         message,
         timestamp: new Date(),
         metadata: metadata ? (metadata as Prisma.InputJsonObject) : undefined,
+        changes:
+          changes && Object.keys(changes).length > 0
+            ? (changes as unknown as Prisma.InputJsonObject)
+            : undefined,
+        actor: getCurrentActor()?.id,
       },
     });
   }
 
   private async initializeSequences(): Promise<void> {
-    const [partIdMaxRows, auditIdMaxRows, partNumberMaxRows] = await Promise.all(
-      [
-        this.prisma.$queryRaw<SequenceMaxRow[]>`
+    const [
+      partIdMaxRows,
+      auditIdMaxRows,
+      partNumberMaxRows,
+      bomLinkIdMaxRows,
+      bomAlternateIdMaxRows,
+      categoryIdMaxRows,
+    ] = await Promise.all([
+      this.prisma.$queryRaw<SequenceMaxRow[]>`
           SELECT COALESCE(MAX((regexp_match(id, '^PART-(\\d+)$'))[1]::integer), 0) AS max
-          FROM "parts"
+          FROM (
+            SELECT id FROM "parts"
+            UNION ALL
+            SELECT part_id FROM "audit_logs"
+          ) AS part_ids
         `,
-        this.prisma.$queryRaw<SequenceMaxRow[]>`
+      this.prisma.$queryRaw<SequenceMaxRow[]>`
           SELECT COALESCE(MAX((regexp_match(id, '^AUD-(\\d+)$'))[1]::integer), 0) AS max
           FROM "audit_logs"
         `,
-        this.prisma.$queryRaw<SequenceMaxRow[]>`
+      this.prisma.$queryRaw<SequenceMaxRow[]>`
           SELECT COALESCE(MAX((regexp_match(part_number, '^PRT-(\\d+)$'))[1]::integer), 0) AS max
           FROM "parts"
         `,
-      ],
-    );
+      this.prisma.$queryRaw<SequenceMaxRow[]>`
+          SELECT COALESCE(MAX((regexp_match(id, '^LNK-(\\d+)$'))[1]::integer), 0) AS max
+          FROM "bom_links"
+        `,
+      this.prisma.$queryRaw<SequenceMaxRow[]>`
+          SELECT COALESCE(MAX((regexp_match(id, '^ALT-(\\d+)$'))[1]::integer), 0) AS max
+          FROM "bom_alternates"
+        `,
+      this.prisma.$queryRaw<SequenceMaxRow[]>`
+          SELECT COALESCE(MAX((regexp_match(id, '^CAT-(\\d+)$'))[1]::integer), 0) AS max
+          FROM "categories"
+        `,
+    ]);
 
     this.partIdSequence =
       this.parseSequenceMax(partIdMaxRows.at(0)?.max, 'PART') + 1;
@@ -939,6 +6981,12 @@ export class PartBomStoreService implements OnModuleInit {
       this.parseSequenceMax(auditIdMaxRows.at(0)?.max, 'AUD') + 1;
     this.partNumberSequence =
       this.parseSequenceMax(partNumberMaxRows.at(0)?.max, 'PRT') + 1;
+    this.bomLinkSequence =
+      this.parseSequenceMax(bomLinkIdMaxRows.at(0)?.max, 'LNK') + 1;
+    this.bomAlternateSequence =
+      this.parseSequenceMax(bomAlternateIdMaxRows.at(0)?.max, 'ALT') + 1;
+    this.categorySequence =
+      this.parseSequenceMax(categoryIdMaxRows.at(0)?.max, 'CAT') + 1;
   }
 
   private parseSequenceMax(
@@ -961,6 +7009,27 @@ export class PartBomStoreService implements OnModuleInit {
     return Math.floor(parsedValue);
   }
 
+  private rethrowConcurrentChangeError(error: unknown, message: string): never {
+    const prismaError = error as {
+      code?: string;
+    };
+
+    if (
+      prismaError.code === 'P2002' ||
+      prismaError.code === 'P2003' ||
+      prismaError.code === 'P2025' ||
+      prismaError.code === 'P2034'
+    ) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message,
+      });
+    }
+
+    throw error;
+  }
+
   private rethrowMissingSchemaError(error: unknown): never {
     const prismaError = error as {
       code?: string;
@@ -981,23 +7050,194 @@ export class PartBomStoreService implements OnModuleInit {
   }
 
   private toPart(row: PrismaPartRecord): Part {
-    return {
+    const part: Part = {
       id: row.id,
       partNumber: row.partNumber,
       name: row.name,
       description: row.description,
+      status: row.status,
+      revision: row.currentRevision,
+      unit: row.unit,
+      attributes: this.toPartAttributes(row.attributes),
+      version: row.version,
       createdAt: row.createdAt.toISOString(),
       updatedAt: row.updatedAt.toISOString(),
     };
+
+    if (row.unitCost !== null) {
+      part.unitCost = row.unitCost.toNumber();
+    }
+
+    if (row.currency !== null) {
+      part.currency = row.currency;
+    }
+
+    if (row.categoryId !== null) {
+      part.categoryId = row.categoryId;
+    }
+
+    return part;
   }
 
-  private toBomLink(row: PrismaBomLinkRecord): BomLink {
+  private toPartAttributes(attributes: Prisma.JsonValue): PartAttributes {
+    if (
+      !attributes ||
+      typeof attributes !== 'object' ||
+      Array.isArray(attributes)
+    ) {
+      return {};
+    }
+
+    const record: PartAttributes = {};
+
+    for (const [key, value] of Object.entries(
+      attributes as Record<string, Prisma.JsonValue>,
+    )) {
+      if (
+        typeof value === 'string' ||
+        typeof value === 'number' ||
+        typeof value === 'boolean'
+      ) {
+        record[key] = value;
+      }
+    }
+
+    return record;
+  }
+
+  private toCategorySummary(
+    row: PrismaCategoryRecord,
+    categories: Map<string, PrismaCategoryRecord>,
+  ): CategorySummary {
+    return {
+      id: row.id,
+      name: row.name,
+      path: this.getCategoryChain(categories, row.id).map(
+        (category) => category.name,
+      ),
+    };
+  }
+
+  private toCategory(
+    row: PrismaCategoryRecord,
+    categories: Map<string, PrismaCategoryRecord>,
+    partCounts: Map<string, number>,
+  ): Category {
+    const category: Category = {
+      ...this.toCategorySummary(row, categories),
+      requiredAttributes: row.requiredAttributes,
+      partCount: partCounts.get(row.id) ?? 0,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+
+    if (row.parentId !== null) {
+      category.parentId = row.parentId;
+    }
+
+    if (row.partNumberPrefix !== null) {
+      category.partNumberPrefix = row.partNumberPrefix;
+    }
+
+    return category;
+  }
+
+  private toCategoryTreeNode(
+    row: PrismaCategoryRecord,
+    categories: Map<string, PrismaCategoryRecord>,
+    partCounts: Map<string, number>,
+  ): CategoryTreeNode {
     return {
+      ...this.toCategory(row, categories, partCounts),
+      children: [...categories.values()]
+        .filter((child) => child.parentId === row.id)
+        .map((child) => this.toCategoryTreeNode(child, categories, partCounts)),
+    };
+  }
+
+  private toAttributeDefinition(
+    row: PrismaAttributeDefinitionRecord,
+  ): AttributeDefinition {
+    const definition: AttributeDefinition = {
+      key: row.key,
+      label: row.label,
+      type: row.type,
+      options: row.options,
+      isRequired: row.isRequired,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+
+    if (row.unit !== null) {
+      definition.unit = row.unit;
+    }
+
+    return definition;
+  }
+
+  private toPartRevisionSummary(
+    row: PrismaPartRevisionRecord,
+    currentRevision: string,
+  ): PartRevisionSummary {
+    const summary: PartRevisionSummary = {
+      code: row.code,
+      status: row.status,
+      name: row.name,
+      description: row.description,
+      childCount: row._count.bomLinks,
+      isCurrent: row.code === currentRevision,
+      createdAt: row.createdAt.toISOString(),
+    };
+
+    if (row.releasedAt) {
+      summary.releasedAt = row.releasedAt.toISOString();
+    }
+
+    return summary;
+  }
+
+  private toBomLink(row: PrismaBomLinkRecord): BomLink {
+    const link: BomLink = {
+      id: row.id,
       parentId: row.parentId,
+      revision: row.revision,
       childId: row.childId,
-      quantity: row.quantity,
+      findNumber: row.findNumber,
+      quantity: row.quantity.toNumber(),
+      unit: row.unit,
+      referenceDesignators: row.referenceDesignators,
+      version: row.version,
       createdAt: row.createdAt.toISOString(),
     };
+
+    if (row.effectiveFrom) {
+      link.effectiveFrom = row.effectiveFrom.toISOString();
+    }
+
+    if (row.effectiveTo) {
+      link.effectiveTo = row.effectiveTo.toISOString();
+    }
+
+    return link;
+  }
+
+  private toBomAlternate(row: PrismaBomAlternateRecord): BomAlternate {
+    const alternate: BomAlternate = {
+      id: row.id,
+      part: {
+        id: row.alternatePart.id,
+        partNumber: row.alternatePart.partNumber,
+        name: row.alternatePart.name,
+      },
+      rank: row.rank,
+      scope: row.linkId ? 'LINE' : 'GLOBAL',
+    };
+
+    if (row.linkId) {
+      alternate.linkId = row.linkId;
+    }
+
+    return alternate;
   }
 
   private toAuditMetadata(
@@ -1020,6 +7260,40 @@ export class PartBomStoreService implements OnModuleInit {
     return Object.keys(record).length > 0 ? record : undefined;
   }
 
+  private toAuditChanges(
+    changes: Prisma.JsonValue | null,
+  ): AuditChanges | undefined {
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      return undefined;
+    }
+
+    const record: AuditChanges = {};
+
+    for (const [key, value] of Object.entries(
+      changes as Record<string, Prisma.JsonValue>,
+    )) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        continue;
+      }
+
+      const { from = null, to = null } = value;
+      if (this.isAuditValue(from) && this.isAuditValue(to)) {
+        record[key] = { from, to };
+      }
+    }
+
+    return Object.keys(record).length > 0 ? record : undefined;
+  }
+
+  private isAuditValue(value: Prisma.JsonValue): value is AuditValue {
+    return (
+      value === null ||
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    );
+  }
+
   private async seedSampleData(): Promise<void> {
     const partIdsByKey = new Map<string, string>();
 
@@ -1059,15 +7333,17 @@ export class PartBomStoreService implements OnModuleInit {
         );
       }
 
-      const existingLink = await this.prisma.bomLink.findUnique({
+      const parent = await this.requirePart(parentId);
+      const existingLink = await this.prisma.bomLink.findFirst({
         where: {
-          parentId_childId: {
-            parentId,
-            childId,
-          },
+          parentId,
+          revision: parent.revision,
+          childId,
         },
         select: {
+          id: true,
           quantity: true,
+          version: true,
         },
       });
 
@@ -1076,15 +7352,19 @@ export class PartBomStoreService implements OnModuleInit {
           parentId,
           childId,
           quantity: linkDefinition.quantity,
+          allowReleasedEdit: true,
         });
         continue;
       }
 
-      if (existingLink.quantity !== linkDefinition.quantity) {
+      if (existingLink.quantity.toNumber() !== linkDefinition.quantity) {
         await this.updateBomLink({
           parentId,
           childId,
+          linkId: existingLink.id,
+          expectedVersion: existingLink.version,
           quantity: linkDefinition.quantity,
+          allowReleasedEdit: true,
         });
       }
     }
@@ -1,8 +1,35 @@
+export type PartStatus = 'DRAFT' | 'RELEASED' | 'OBSOLETE';
+
+export type AttributeType = 'STRING' | 'NUMBER' | 'ENUM' | 'BOOLEAN';
+
+export type PartAttributeValue = string | number | boolean;
+
+export type PartAttributes = Record<string, PartAttributeValue>;
+
+export interface AttributeDefinition {
+  key: string;
+  label: string;
+  type: AttributeType;
+  unit?: string;
+  options: string[];
+  isRequired: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Part {
   id: string;
   partNumber: string;
   name: string;
   description: string;
+  status: PartStatus;
+  revision: string;
+  unitCost?: number;
+  currency?: string;
+  unit: string;
+  attributes: PartAttributes;
+  categoryId?: string;
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -13,8 +40,67 @@ export interface PartSummary {
   name: string;
 }
 
+export interface CopiedPart {
+  source: PartSummary;
+  part: PartSummary;
+}
+
+export interface PartClone {
+  part: Part;
+  depth: number;
+  copiedParts: CopiedPart[];
+  linkCount: number;
+}
+
+export interface CategorySummary {
+  id: string;
+  name: string;
+  path: string[];
+}
+
+export interface Category extends CategorySummary {
+  parentId?: string;
+  partNumberPrefix?: string;
+  requiredAttributes: string[];
+  partCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryTreeNode extends Category {
+  children: CategoryTreeNode[];
+}
+
+export type BomAlternateScope = 'GLOBAL' | 'LINE';
+
+export interface BomAlternate {
+  id: string;
+  part: PartSummary;
+  rank: number;
+  scope: BomAlternateScope;
+  linkId?: string;
+}
+
 export interface ChildPartUsage extends PartSummary {
+  linkId: string;
+  findNumber: number;
   quantity: number;
+  unit: string;
+  referenceDesignators: string[];
+  alternates: BomAlternate[];
+  effectiveFrom?: string;
+  effectiveTo?: string;
+}
+
+export interface PartRevisionSummary {
+  code: string;
+  status: PartStatus;
+  name: string;
+  description: string;
+  childCount: number;
+  isCurrent: boolean;
+  createdAt: string;
+  releasedAt?: string;
 }
 
 export interface PartDetails extends Part {
@@ -22,6 +108,19 @@ export interface PartDetails extends Part {
   childCount: number;
   parentParts: PartSummary[];
   childParts: ChildPartUsage[];
+  alternates: BomAlternate[];
+  revisions: PartRevisionSummary[];
+  category?: CategorySummary;
+  asOf?: string;
+  isHistoryComplete?: boolean;
+}
+
+export interface PartDeletionResult {
+  partId: string;
+  partNumber: string;
+  detachedParents: PartSummary[];
+  detachedChildren: PartSummary[];
+  removedAlternateCount: number;
 }
 
 export type AuditAction =
@@ -29,7 +128,22 @@ export type AuditAction =
   | 'PART_UPDATED'
   | 'BOM_LINK_CREATED'
   | 'BOM_LINK_UPDATED'
-  | 'BOM_LINK_REMOVED';
+  | 'BOM_LINK_REMOVED'
+  | 'PART_DELETED'
+  | 'PART_STATUS_CHANGED'
+  | 'PART_REVISION_CREATED'
+  | 'BOM_ALTERNATE_ADDED'
+  | 'BOM_ALTERNATE_REMOVED'
+  | 'PART_CLONED';
+
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditFieldChange {
+  from: AuditValue;
+  to: AuditValue;
+}
+
+export type AuditChanges = Record<string, AuditFieldChange>;
 
 export interface AuditLog {
   id: string;
@@ -38,32 +152,264 @@ export interface AuditLog {
   message: string;
   timestamp: string;
   metadata?: Record<string, string | number>;
+  changes?: AuditChanges;
+  actor?: string;
+}
+
+export interface AuditLogFilters {
+  actions?: AuditAction[];
+  partId?: string;
+  actor?: string;
+  from?: Date;
+  to?: Date;
+  q?: string;
+}
+
+export interface AuditLogPage {
+  items: AuditLog[];
+  limit: number;
+  nextCursor: string | null;
 }
 
 export interface BomLink {
+  id: string;
   parentId: string;
+  revision: string;
   childId: string;
+  findNumber: number;
   quantity: number;
+  unit: string;
+  referenceDesignators: string[];
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  version: number;
   createdAt: string;
 }
 
 export interface BomTreeNode {
   part: PartSummary;
+  revision: string;
+  findNumber?: number;
   quantityFromParent?: number;
+  unitFromParent?: string;
+  referenceDesignators?: string[];
+  alternates?: BomAlternate[];
   hasChildren: boolean;
   children: BomTreeNode[];
 }
 
 export interface BomTreeResponse {
   rootPartId: string;
+  revision: string;
+  effectiveAt: string;
   requestedDepth: number;
   nodeLimit: number;
   nodeCount: number;
   tree: BomTreeNode;
+  asOf?: string;
+  isHistoryComplete?: boolean;
+}
+
+export interface WhereUsedNode {
+  part: PartSummary;
+  quantityUsed?: number;
+  unitUsed?: string;
+  isTopLevel: boolean;
+  parents: WhereUsedNode[];
+}
+
+export interface WhereUsedResponse {
+  partId: string;
+  requestedDepth: number;
+  nodeLimit: number;
+  nodeCount: number;
+  topLevelParts: PartSummary[];
+  tree: WhereUsedNode;
+}
+
+export interface FlatBomItem {
+  part: PartSummary;
+  totalQuantity: number;
+  unit: string;
+  lowestLevel: number;
+  isLeaf: boolean;
+}
+
+export interface FlatBomResponse {
+  rootPartId: string;
+  revision: string;
+  effectiveAt: string;
+  itemCount: number;
+  items: FlatBomItem[];
+}
+
+export interface BomDiffEntry {
+  part: PartSummary;
+  path: string[];
+  leftQuantity?: number;
+  leftUnit?: string;
+  rightQuantity?: number;
+  rightUnit?: string;
+}
+
+export interface BomDiffLevel {
+  level: number;
+  added: BomDiffEntry[];
+  removed: BomDiffEntry[];
+  quantityChanged: BomDiffEntry[];
+}
+
+export interface BomCompareResponse {
+  left: PartSummary;
+  leftRevision: string;
+  right: PartSummary;
+  rightRevision: string;
+  requestedDepth: number;
+  isIdentical: boolean;
+  levels: BomDiffLevel[];
+}
+
+export interface IndentedBomRow {
+  level: number;
+  findPath: string;
+  part: PartSummary;
+  revision: string;
+  quantityPerParent?: number;
+  unit?: string;
+  extendedQuantity: number;
+  baseUnit: string;
+}
+
+export interface IndentedBomResponse {
+  rootPartId: string;
+  revision: string;
+  rowCount: number;
+  rows: IndentedBomRow[];
+}
+
+export interface CostRollupAssembly {
+  part: PartSummary;
+  unitCost?: number;
+  materialCost: number;
+  totalCost: number;
+}
+
+export interface BomCostRollupResponse {
+  rootPartId: string;
+  revision: string;
+  currency: string;
+  totalCost: number;
+  isComplete: boolean;
+  assemblies: CostRollupAssembly[];
+  missingCostParts: PartSummary[];
+  currencyMismatchParts: PartSummary[];
+}
+
+export type BomLinkBatchOperationType = 'create' | 'update' | 'remove';
+
+export interface BomLinkBatchError {
+  index: number;
+  message: string;
+}
+
+export interface BomLinkBatchOperationResult {
+  index: number;
+  op: BomLinkBatchOperationType;
+  link: BomLink;
+}
+
+export interface BomLinkBatchResult {
+  operationCount: number;
+  results: BomLinkBatchOperationResult[];
+}
+
+export interface BomChildChange {
+  part: PartSummary;
+  linkId: string;
+  fromQuantity?: number;
+  fromUnit?: string;
+  toQuantity?: number;
+  toUnit?: string;
+}
+
+export interface BomChildrenReplaceResult {
+  parentId: string;
+  revision: string;
+  isChanged: boolean;
+  added: BomChildChange[];
+  removed: BomChildChange[];
+  changed: BomChildChange[];
+  unchangedCount: number;
+}
+
+export interface ComponentReplaceLink {
+  fromLinkId: string;
+  linkId: string;
+  findNumber: number;
+  fromQuantity: number;
+  toQuantity: number;
+  unit: string;
+  removedAlternates: BomAlternate[];
+}
+
+export interface ComponentReplaceParent {
+  parent: PartSummary;
+  revision: string;
+  links: ComponentReplaceLink[];
+}
+
+export interface ComponentReplaceResult {
+  part: PartSummary;
+  replacement: PartSummary;
+  quantityMultiplier: number;
+  parentCount: number;
+  linkCount: number;
+  parents: ComponentReplaceParent[];
+}
+
+export type BomImportFile = 'parts' | 'links';
+
+export interface BomImportRowError {
+  file: BomImportFile;
+  row: number;
+  message: string;
+}
+
+export interface BomImportResult {
+  dryRun: boolean;
+  isValid: boolean;
+  partCount: number;
+  linkCount: number;
+  errorCount: number;
+  errors: BomImportRowError[];
+  parts?: Part[];
+  links?: BomLink[];
 }
 
 export interface PartSearchFilters {
   partNumber?: string;
   name?: string;
   q?: string;
+  attributes?: Record<string, string>;
+  categoryId?: string;
+}
+
+export type PartSortField = 'partNumber' | 'name' | 'createdAt' | 'updatedAt';
+
+export type PartSearchSortField = PartSortField | 'relevance';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface PartSearchItem extends PartSummary {
+  rank?: number;
+  snippet?: string;
+}
+
+export interface PartSearchResponse {
+  items: PartSearchItem[];
+  total: number;
+  limit: number;
+  sortBy: PartSearchSortField;
+  sortOrder: SortOrder;
+  nextCursor: string | null;
 }
@@ -0,0 +1,69 @@
+export type UnitDimension = 'COUNT' | 'LENGTH' | 'MASS' | 'VOLUME';
+
+interface UnitDefinition {
+  dimension: UnitDimension;
+  factor: number;
+}
+
+const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  EA: { dimension: 'COUNT', factor: 1 },
+  MM: { dimension: 'LENGTH', factor: 0.001 },
+  CM: { dimension: 'LENGTH', factor: 0.01 },
+  M: { dimension: 'LENGTH', factor: 1 },
+  G: { dimension: 'MASS', factor: 0.001 },
+  KG: { dimension: 'MASS', factor: 1 },
+  ML: { dimension: 'VOLUME', factor: 0.001 },
+  L: { dimension: 'VOLUME', factor: 1 },
+};
+
+export const DEFAULT_UNIT = 'EA';
+
+export const SUPPORTED_UNITS = Object.keys(UNIT_DEFINITIONS);
+
+export function normalizeUnit(unit: string): string | undefined {
+  const normalized = unit.trim().toUpperCase();
+  return UNIT_DEFINITIONS[normalized] ? normalized : undefined;
+}
+
+export function getUnitDimension(unit: string): UnitDimension {
+  return requireUnitDefinition(unit).dimension;
+}
+
+export function areUnitsCompatible(
+  leftUnit: string,
+  rightUnit: string,
+): boolean {
+  return getUnitDimension(leftUnit) === getUnitDimension(rightUnit);
+}
+
+export function convertQuantity(
+  quantity: number,
+  fromUnit: string,
+  toUnit: string,
+): number {
+  if (fromUnit === toUnit) {
+    return quantity;
+  }
+
+  const from = requireUnitDefinition(fromUnit);
+  const to = requireUnitDefinition(toUnit);
+
+  if (from.dimension !== to.dimension) {
+    throw new Error(`Cannot convert ${fromUnit} to ${toUnit}.`);
+  }
+
+  return roundQuantity((quantity * from.factor) / to.factor);
+}
+
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 1_000_000) / 1_000_000;
+}
+
+function requireUnitDefinition(unit: string): UnitDefinition {
+  const definition = UNIT_DEFINITIONS[unit];
+  if (!definition) {
+    throw new Error(`Unknown unit of measure '${unit}'.`);
+  }
+
+  return definition;
+}
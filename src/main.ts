@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { ExpressAdapter } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
+import { getCorsOrigins } from './runtime-env';
 
 type ServerHandler = (req: unknown, res: unknown) => void;
 let appInitPromise: Promise<ServerHandler> | null = null;
@@ -12,7 +13,7 @@ async function getServer(): Promise<ServerHandler> {
       const app = await NestFactory.create(AppModule, adapter);
 
       app.enableCors({
-        origin: true,
+        origin: getCorsOrigins(),
       });
 
       await app.init();
@@ -38,7 +39,7 @@ async function bootstrap(): Promise<void> {
 
   const app = await NestFactory.create(AppModule);
   app.enableCors({
-    origin: true,
+    origin: getCorsOrigins(),
   });
   await app.listen(process.env.PORT ?? 3000);
 }
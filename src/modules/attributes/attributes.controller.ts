@@ -0,0 +1,47 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '../../core/auth/auth.guard';
+import { RequireRole } from '../../core/auth/roles';
+import { AttributesService } from './attributes.service';
+import { CreateAttributeDefinitionDto } from './dto/create-attribute-definition.dto';
+import { UpdateAttributeDefinitionDto } from './dto/update-attribute-definition.dto';
+
+@UseGuards(AuthGuard)
+@Controller('attributes')
+export class AttributesController {
+  constructor(private readonly attributesService: AttributesService) {}
+
+  @Get()
+  listAttributeDefinitions() {
+    return this.attributesService.listAttributeDefinitions();
+  }
+
+  @Post()
+  @RequireRole('admin')
+  createAttributeDefinition(@Body() payload: CreateAttributeDefinitionDto) {
+    return this.attributesService.createAttributeDefinition(payload);
+  }
+
+  @Put(':key')
+  @RequireRole('admin')
+  updateAttributeDefinition(
+    @Param('key') key: string,
+    @Body() payload: UpdateAttributeDefinitionDto,
+  ) {
+    return this.attributesService.updateAttributeDefinition(key, payload);
+  }
+
+  @Delete(':key')
+  @RequireRole('admin')
+  deleteAttributeDefinition(@Param('key') key: string) {
+    return this.attributesService.deleteAttributeDefinition(key);
+  }
+}
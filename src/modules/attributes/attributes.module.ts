@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../../core/auth/auth.module';
+import { PartBomModule } from '../../core/part-bom/part-bom.module';
+import { AttributesController } from './attributes.controller';
+import { AttributesService } from './attributes.service';
+
+@Module({
+  imports: [AuthModule, PartBomModule],
+  controllers: [AttributesController],
+  providers: [AttributesService],
+})
+export class AttributesModule {}
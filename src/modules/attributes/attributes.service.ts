@@ -0,0 +1,100 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ATTRIBUTE_TYPES } from '../../core/part-bom/part-attributes';
+import { PartBomStoreService } from '../../core/part-bom/part-bom-store.service';
+import { AttributeType } from '../../core/part-bom/part-bom.models';
+import { CreateAttributeDefinitionDto } from './dto/create-attribute-definition.dto';
+import { UpdateAttributeDefinitionDto } from './dto/update-attribute-definition.dto';
+
+@Injectable()
+export class AttributesService {
+  constructor(private readonly store: PartBomStoreService) {}
+
+  async listAttributeDefinitions() {
+    return this.store.listAttributeDefinitions();
+  }
+
+  async createAttributeDefinition(payload: CreateAttributeDefinitionDto) {
+    if (typeof payload.key !== 'string' || !payload.key.trim()) {
+      throw new BadRequestException('Attribute key is required.');
+    }
+
+    const type = payload.type?.trim().toUpperCase();
+    if (!type) {
+      throw new BadRequestException('Attribute type is required.');
+    }
+
+    if (!ATTRIBUTE_TYPES.includes(type as AttributeType)) {
+      throw new BadRequestException(
+        `Attribute type must be one of: ${ATTRIBUTE_TYPES.join(', ')}.`,
+      );
+    }
+
+    return this.store.createAttributeDefinition({
+      key: payload.key,
+      label: payload.label,
+      type: type as AttributeType,
+      unit: payload.unit,
+      options: this.parseOptions(payload.options),
+      isRequired: this.parseIsRequired(payload.isRequired),
+    });
+  }
+
+  async updateAttributeDefinition(
+    key: string,
+    payload: UpdateAttributeDefinitionDto,
+  ) {
+    if (payload.type !== undefined) {
+      throw new BadRequestException('Attribute type cannot be changed.');
+    }
+
+    if (
+      payload.label === undefined &&
+      payload.unit === undefined &&
+      payload.options === undefined &&
+      payload.isRequired === undefined
+    ) {
+      throw new BadRequestException(
+        'At least one field must be provided for update.',
+      );
+    }
+
+    return this.store.updateAttributeDefinition(key, {
+      label: payload.label,
+      unit: payload.unit,
+      options: this.parseOptions(payload.options),
+      isRequired: this.parseIsRequired(payload.isRequired),
+    });
+  }
+
+  async deleteAttributeDefinition(key: string) {
+    const definition = await this.store.deleteAttributeDefinition(key);
+
+    return {
+      message: 'Attribute deleted successfully.',
+      key: definition.key,
+    };
+  }
+
+  private parseOptions(options: unknown): string[] | undefined {
+    if (options === undefined) {
+      return undefined;
+    }
+
+    if (
+      !Array.isArray(options) ||
+      options.some((option) => typeof option !== 'string')
+    ) {
+      throw new BadRequestException('options must be an array of strings.');
+    }
+
+    return options as string[];
+  }
+
+  private parseIsRequired(isRequired: unknown): boolean | undefined {
+    if (isRequired !== undefined && typeof isRequired !== 'boolean') {
+      throw new BadRequestException('isRequired must be true or false.');
+    }
+
+    return isRequired;
+  }
+}
@@ -0,0 +1,8 @@
+export class CreateAttributeDefinitionDto {
+  key?: string;
+  label?: string;
+  type?: string;
+  unit?: string | null;
+  options?: string[];
+  isRequired?: boolean;
+}
@@ -0,0 +1,7 @@
+export class UpdateAttributeDefinitionDto {
+  label?: string;
+  type?: string;
+  unit?: string | null;
+  options?: string[];
+  isRequired?: boolean;
+}
@@ -0,0 +1,32 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '../../core/auth/auth.guard';
+import { AuditLogsService } from './audit-logs.service';
+
+@UseGuards(AuthGuard)
+@Controller('audit-logs')
+export class AuditLogsController {
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  @Get()
+  searchAuditLogs(
+    @Query('action') action?: string | string[],
+    @Query('partId') partId?: string,
+    @Query('actor') actor?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('q') q?: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.auditLogsService.searchAuditLogs({
+      action,
+      partId,
+      actor,
+      from,
+      to,
+      q,
+      limit,
+      cursor,
+    });
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../../core/auth/auth.module';
+import { PartBomModule } from '../../core/part-bom/part-bom.module';
+import { AuditLogsController } from './audit-logs.controller';
+import { AuditLogsService } from './audit-logs.service';
+
+@Module({
+  imports: [AuthModule, PartBomModule],
+  controllers: [AuditLogsController],
+  providers: [AuditLogsService],
+})
+export class AuditLogsModule {}
@@ -0,0 +1,108 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PartBomStoreService } from '../../core/part-bom/part-bom-store.service';
+import { AuditAction } from '../../core/part-bom/part-bom.models';
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  'PART_CREATED',
+  'PART_UPDATED',
+  'BOM_LINK_CREATED',
+  'BOM_LINK_UPDATED',
+  'BOM_LINK_REMOVED',
+  'PART_STATUS_CHANGED',
+  'PART_REVISION_CREATED',
+  'BOM_ALTERNATE_ADDED',
+  'BOM_ALTERNATE_REMOVED',
+  'PART_DELETED',
+  'PART_CLONED',
+];
+
+interface AuditLogQuery {
+  action?: string | string[];
+  partId?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  q?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+@Injectable()
+export class AuditLogsService {
+  constructor(private readonly store: PartBomStoreService) {}
+
+  async searchAuditLogs(query: AuditLogQuery) {
+    const from = this.parseTimestamp(query.from, 'from');
+    const to = this.parseTimestamp(query.to, 'to');
+    if (from && to && from >= to) {
+      throw new BadRequestException('from must be before to.');
+    }
+
+    return this.store.searchAuditLogs(
+      {
+        actions: this.parseActions(query.action),
+        partId: query.partId,
+        actor: query.actor,
+        from,
+        to,
+        q: query.q,
+      },
+      {
+        limit: this.parseLimit(query.limit),
+        cursor: query.cursor,
+      },
+    );
+  }
+
+  private parseActions(
+    actionQuery?: string | string[],
+  ): AuditAction[] | undefined {
+    if (actionQuery === undefined) {
+      return undefined;
+    }
+
+    const actions = (Array.isArray(actionQuery) ? actionQuery : [actionQuery])
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim().toUpperCase())
+      .filter((value) => value.length > 0);
+
+    for (const action of actions) {
+      if (!AUDIT_ACTIONS.includes(action as AuditAction)) {
+        throw new BadRequestException(
+          `action must be one of: ${AUDIT_ACTIONS.join(', ')}.`,
+        );
+      }
+    }
+
+    return actions as AuditAction[];
+  }
+
+  private parseLimit(limitQuery?: string): number {
+    if (!limitQuery) {
+      return this.store.defaultPageSize;
+    }
+
+    const parsed = Number.parseInt(limitQuery, 10);
+    if (Number.isNaN(parsed)) {
+      throw new BadRequestException('limit must be a number.');
+    }
+
+    return parsed;
+  }
+
+  private parseTimestamp(
+    timestampQuery: string | undefined,
+    name: string,
+  ): Date | undefined {
+    if (!timestampQuery) {
+      return undefined;
+    }
+
+    const timestamp = new Date(timestampQuery);
+    if (Number.isNaN(timestamp.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO 8601 timestamp.`);
+    }
+
+    return timestamp;
+  }
+}
@@ -3,43 +3,195 @@ import {
   Controller,
   Delete,
   Get,
+  Headers,
   Param,
   Post,
   Put,
   Query,
+  Res,
+  UseGuards,
 } from '@nestjs/common';
+import type { Response } from 'express';
+import { AuthGuard } from '../../core/auth/auth.guard';
+import { RequireRole } from '../../core/auth/roles';
+import { formatEntityTag } from '../../core/part-bom/entity-tag';
+import { AddBomLinkAlternateDto } from './dto/add-bom-link-alternate.dto';
+import { BomLinkBatchDto } from './dto/bom-link-batch.dto';
 import { CreateBomLinkDto } from './dto/create-bom-link.dto';
+import { ReplaceBomChildrenDto } from './dto/replace-bom-children.dto';
+import { ReplaceComponentDto } from './dto/replace-component.dto';
 import { BomService } from './bom.service';
 import { UpdateBomLinkDto } from './dto/update-bom-link.dto';
 
+@UseGuards(AuthGuard)
 @Controller('bom')
 export class BomController {
   constructor(private readonly bomService: BomService) {}
 
+  @Get('compare')
+  compareBoms(
+    @Query('left') left?: string,
+    @Query('right') right?: string,
+    @Query('depth') depth?: string,
+  ) {
+    return this.bomService.compareBoms(left, right, depth);
+  }
+
+  @Get('links/:linkId')
+  async getBomLink(
+    @Param('linkId') linkId: string,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const link = await this.bomService.getBomLink(linkId);
+
+    response.setHeader('ETag', formatEntityTag(link.version));
+
+    return link;
+  }
+
   @Get(':rootPartId')
   getBomTree(
     @Param('rootPartId') rootPartId: string,
     @Query('depth') depth?: string,
     @Query('nodeLimit') nodeLimit?: string,
+    @Query('revision') revision?: string,
+    @Query('asOf') asOf?: string,
+    @Query('effectiveAt') effectiveAt?: string,
+  ) {
+    return this.bomService.getBomTree(
+      rootPartId,
+      depth,
+      nodeLimit,
+      revision,
+      asOf,
+      effectiveAt,
+    );
+  }
+
+  @Get(':partId/where-used')
+  getWhereUsedTree(
+    @Param('partId') partId: string,
+    @Query('depth') depth?: string,
+    @Query('nodeLimit') nodeLimit?: string,
+  ) {
+    return this.bomService.getWhereUsedTree(partId, depth, nodeLimit);
+  }
+
+  @Get(':rootPartId/flat')
+  getFlatBom(
+    @Param('rootPartId') rootPartId: string,
+    @Query('revision') revision?: string,
+    @Query('effectiveAt') effectiveAt?: string,
   ) {
-    return this.bomService.getBomTree(rootPartId, depth, nodeLimit);
+    return this.bomService.getFlatBom(rootPartId, revision, effectiveAt);
+  }
+
+  @Get(':rootPartId/export')
+  async exportBomCsv(
+    @Param('rootPartId') rootPartId: string,
+    @Res({ passthrough: true }) response: Response,
+    @Query('revision') revision?: string,
+  ) {
+    const file = await this.bomService.exportBomCsv(rootPartId, revision);
+
+    response.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    response.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+
+    return file.content;
+  }
+
+  @Get(':rootPartId/cost')
+  getBomCostRollup(
+    @Param('rootPartId') rootPartId: string,
+    @Query('revision') revision?: string,
+  ) {
+    return this.bomService.getBomCostRollup(rootPartId, revision);
   }
 
   @Post('links')
+  @RequireRole('editor')
   createBomLink(@Body() payload: CreateBomLinkDto) {
     return this.bomService.createBomLink(payload);
   }
 
+  @Post('links/batch')
+  @RequireRole('editor')
+  applyBomLinkBatch(@Body() payload: BomLinkBatchDto) {
+    return this.bomService.applyBomLinkBatch(payload);
+  }
+
+  @Post('links/alternates')
+  @RequireRole('editor')
+  addBomLinkAlternate(@Body() payload: AddBomLinkAlternateDto) {
+    return this.bomService.addBomLinkAlternate(payload);
+  }
+
   @Put('links')
-  updateBomLink(@Body() payload: UpdateBomLinkDto) {
-    return this.bomService.updateBomLink(payload);
+  @RequireRole('editor')
+  async updateBomLink(
+    @Body() payload: UpdateBomLinkDto,
+    @Res({ passthrough: true }) response: Response,
+    @Headers('if-match') ifMatch?: string,
+  ) {
+    const link = await this.bomService.updateBomLink(payload, ifMatch);
+
+    response.setHeader('ETag', formatEntityTag(link.version));
+
+    return link;
+  }
+
+  @Put(':parentId/children')
+  @RequireRole('editor')
+  replaceBomChildren(
+    @Param('parentId') parentId: string,
+    @Body() payload: ReplaceBomChildrenDto,
+  ) {
+    return this.bomService.replaceBomChildren(parentId, payload);
+  }
+
+  @Post(':partId/where-used/replace')
+  @RequireRole('editor')
+  replaceComponent(
+    @Param('partId') partId: string,
+    @Body() payload: ReplaceComponentDto,
+  ) {
+    return this.bomService.replaceComponent(partId, payload);
   }
 
   @Delete('links/:parentId/:childId')
+  @RequireRole('editor')
   removeBomLink(
     @Param('parentId') parentId: string,
     @Param('childId') childId: string,
+    @Query('allowReleasedEdit') allowReleasedEdit?: string,
+    @Query('linkId') linkId?: string,
+  ) {
+    return this.bomService.removeBomLink(
+      parentId,
+      childId,
+      allowReleasedEdit,
+      linkId,
+    );
+  }
+
+  @Delete('links/:parentId/:childId/alternates/:alternatePartId')
+  @RequireRole('editor')
+  removeBomLinkAlternate(
+    @Param('parentId') parentId: string,
+    @Param('childId') childId: string,
+    @Param('alternatePartId') alternatePartId: string,
+    @Query('allowReleasedEdit') allowReleasedEdit?: string,
+    @Query('linkId') linkId?: string,
   ) {
-    return this.bomService.removeBomLink(parentId, childId);
+    return this.bomService.removeBomLinkAlternate(
+      parentId,
+      childId,
+      alternatePartId,
+      allowReleasedEdit,
+      linkId,
+    );
   }
 }
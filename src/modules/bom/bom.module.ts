@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../../core/auth/auth.module';
 import { PartBomModule } from '../../core/part-bom/part-bom.module';
 import { BomController } from './bom.controller';
 import { BomService } from './bom.service';
 
 @Module({
-  imports: [PartBomModule],
+  imports: [AuthModule, PartBomModule],
   controllers: [BomController],
   providers: [BomService],
 })
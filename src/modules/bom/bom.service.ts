@@ -1,8 +1,24 @@
 import { BadRequestException, Injectable } from '@nestjs/common';
+import { formatCsv } from '../../core/part-bom/csv';
+import { resolveExpectedVersion } from '../../core/part-bom/entity-tag';
 import { PartBomStoreService } from '../../core/part-bom/part-bom-store.service';
+import { BomLinkBatchOperationType } from '../../core/part-bom/part-bom.models';
+import { AddBomLinkAlternateDto } from './dto/add-bom-link-alternate.dto';
+import {
+  BomLinkBatchDto,
+  BomLinkBatchOperationDto,
+} from './dto/bom-link-batch.dto';
 import { CreateBomLinkDto } from './dto/create-bom-link.dto';
+import { ReplaceBomChildrenDto } from './dto/replace-bom-children.dto';
+import { ReplaceComponentDto } from './dto/replace-component.dto';
 import { UpdateBomLinkDto } from './dto/update-bom-link.dto';
 
+const BOM_LINK_BATCH_OPERATIONS: BomLinkBatchOperationType[] = [
+  'create',
+  'update',
+  'remove',
+];
+
 @Injectable()
 export class BomService {
   constructor(private readonly store: PartBomStoreService) {}
@@ -11,11 +27,95 @@ export class BomService {
     rootPartId: string,
     depthQuery?: string,
     nodeLimitQuery?: string,
+    revision?: string,
+    asOfQuery?: string,
+    effectiveAtQuery?: string,
   ) {
     const depth = this.parseDepth(depthQuery);
     const nodeLimit = this.parseNodeLimit(nodeLimitQuery);
+    const asOf = this.parseTimestamp(asOfQuery, 'asOf');
+    const effectiveAt = this.parseTimestamp(effectiveAtQuery, 'effectiveAt');
+
+    return this.store.getBomTree(
+      rootPartId,
+      depth,
+      nodeLimit,
+      revision,
+      asOf,
+      effectiveAt,
+    );
+  }
+
+  async compareBoms(left?: string, right?: string, depthQuery?: string) {
+    if (!left || !right) {
+      throw new BadRequestException('Both left and right are required.');
+    }
+
+    const depth = depthQuery
+      ? this.parseDepth(depthQuery)
+      : this.store.maxExpandDepth;
 
-    return this.store.getBomTree(rootPartId, depth, nodeLimit);
+    return this.store.compareBoms(left, right, depth);
+  }
+
+  async getWhereUsedTree(
+    partId: string,
+    depthQuery?: string,
+    nodeLimitQuery?: string,
+  ) {
+    const depth = this.parseDepth(depthQuery);
+    const nodeLimit = this.parseNodeLimit(nodeLimitQuery);
+
+    return this.store.getWhereUsedTree(partId, depth, nodeLimit);
+  }
+
+  async getFlatBom(
+    rootPartId: string,
+    revision?: string,
+    effectiveAtQuery?: string,
+  ) {
+    const effectiveAt = this.parseTimestamp(effectiveAtQuery, 'effectiveAt');
+
+    return this.store.getFlatBom(rootPartId, revision, effectiveAt);
+  }
+
+  async exportBomCsv(rootPartId: string, revision?: string) {
+    const indentedBom = await this.store.getIndentedBom(rootPartId, revision);
+    const rootPart = indentedBom.rows[0].part;
+
+    const content = formatCsv([
+      [
+        'Level',
+        'Find Path',
+        'Part Number',
+        'Name',
+        'Quantity Per Parent',
+        'Unit',
+        'Extended Quantity',
+        'Base Unit',
+      ],
+      ...indentedBom.rows.map((row) => [
+        `${'.'.repeat(row.level)}${row.level}`,
+        row.findPath,
+        row.part.partNumber,
+        row.part.name,
+        row.quantityPerParent,
+        row.unit,
+        row.extendedQuantity,
+        row.baseUnit,
+      ]),
+    ]);
+
+    const fileBaseName = `${rootPart.partNumber}-rev-${indentedBom.revision}-bom`;
+
+    return {
+      fileName: `${fileBaseName.replace(/[^A-Za-z0-9._-]/g, '_')}.csv`,
+      content,
+    };
+  }
+
+  async getBomCostRollup(rootPartId: string, revision?: string) {
+    return this.store.getBomCostRollup(rootPartId, revision);
   }
 
   async createBomLink(payload: CreateBomLinkDto) {
@@ -26,28 +126,171 @@ export class BomService {
     return this.store.createBomLink({
       parentId: payload.parentId,
       childId: payload.childId,
+      findNumber: payload.findNumber,
       quantity: payload.quantity,
+      unit: this.parseUnit(payload.unit, 'unit'),
+      referenceDesignators: this.parseReferenceDesignators(
+        payload.referenceDesignators,
+      ),
+      effectiveFrom: this.parseEffectiveDate(
+        payload.effectiveFrom,
+        'effectiveFrom',
+      ),
+      effectiveTo: this.parseEffectiveDate(payload.effectiveTo, 'effectiveTo'),
+      allowReleasedEdit: payload.allowReleasedEdit === true,
+    });
+  }
+
+  async applyBomLinkBatch(payload: BomLinkBatchDto) {
+    const operations = payload.operations;
+    if (
+      !Array.isArray(operations) ||
+      operations.length === 0 ||
+      operations.length > this.store.maxBatchSize
+    ) {
+      throw new BadRequestException(
+        `operations must be a list of 1 to ${this.store.maxBatchSize} entries.`,
+      );
+    }
+
+    return this.store.applyBomLinkBatch({
+      operations: operations.map((operation, index) =>
+        this.parseBatchOperation(operation, index),
+      ),
+      allowReleasedEdit: payload.allowReleasedEdit === true,
     });
   }
 
-  async updateBomLink(payload: UpdateBomLinkDto) {
+  async replaceBomChildren(parentId: string, payload: ReplaceBomChildrenDto) {
+    if (!Array.isArray(payload.children)) {
+      throw new BadRequestException('children must be a list.');
+    }
+
+    return this.store.replaceBomChildren(parentId, {
+      children: payload.children.map((child, index) => {
+        if (!child || typeof child.childId !== 'string' || !child.childId) {
+          throw new BadRequestException(
+            `children[${index}].childId is required.`,
+          );
+        }
+
+        if (typeof child.quantity !== 'number') {
+          throw new BadRequestException(
+            `children[${index}].quantity must be a number.`,
+          );
+        }
+
+        return {
+          childId: child.childId,
+          quantity: child.quantity,
+          unit: this.parseUnit(child.unit, `children[${index}].unit`),
+          referenceDesignators: this.parseReferenceDesignators(
+            child.referenceDesignators,
+          ),
+        };
+      }),
+      allowReleasedEdit: payload.allowReleasedEdit === true,
+    });
+  }
+
+  async replaceComponent(partId: string, payload: ReplaceComponentDto) {
+    if (
+      typeof payload.replacementPartId !== 'string' ||
+      !payload.replacementPartId
+    ) {
+      throw new BadRequestException('replacementPartId is required.');
+    }
+
+    if (
+      payload.parentIds !== undefined &&
+      (!Array.isArray(payload.parentIds) ||
+        payload.parentIds.length === 0 ||
+        payload.parentIds.some(
+          (parentId) => typeof parentId !== 'string' || !parentId,
+        ))
+    ) {
+      throw new BadRequestException(
+        'parentIds must be a non-empty list of part ids.',
+      );
+    }
+
+    if (
+      payload.quantityMultiplier !== undefined &&
+      (typeof payload.quantityMultiplier !== 'number' ||
+        !Number.isFinite(payload.quantityMultiplier) ||
+        payload.quantityMultiplier <= 0)
+    ) {
+      throw new BadRequestException(
+        'quantityMultiplier must be a number greater than 0.',
+      );
+    }
+
+    return this.store.replaceComponent(partId, {
+      replacementPartId: payload.replacementPartId,
+      parentIds: payload.parentIds,
+      quantityMultiplier: payload.quantityMultiplier ?? 1,
+      allowReleasedEdit: payload.allowReleasedEdit === true,
+    });
+  }
+
+  async getBomLink(linkId: string) {
+    return this.store.getBomLink(linkId);
+  }
+
+  async updateBomLink(payload: UpdateBomLinkDto, ifMatch?: string) {
     if (!payload.parentId || !payload.childId) {
       throw new BadRequestException('Both parentId and childId are required.');
     }
 
-    if (payload.quantity === undefined) {
-      throw new BadRequestException('Quantity is required.');
+    if (
+      payload.quantity === undefined &&
+      payload.unit === undefined &&
+      payload.findNumber === undefined &&
+      payload.referenceDesignators === undefined &&
+      payload.effectiveFrom === undefined &&
+      payload.effectiveTo === undefined
+    ) {
+      throw new BadRequestException(
+        'At least one field must be provided for update.',
+      );
     }
 
     return this.store.updateBomLink({
       parentId: payload.parentId,
       childId: payload.childId,
+      linkId: payload.linkId,
+      expectedVersion: resolveExpectedVersion(ifMatch, payload.version),
+      findNumber: payload.findNumber,
       quantity: payload.quantity,
+      unit: this.parseUnit(payload.unit, 'unit'),
+      referenceDesignators: this.parseReferenceDesignators(
+        payload.referenceDesignators,
+      ),
+      effectiveFrom: this.parseEffectiveDate(
+        payload.effectiveFrom,
+        'effectiveFrom',
+      ),
+      effectiveTo: this.parseEffectiveDate(payload.effectiveTo, 'effectiveTo'),
+      allowReleasedEdit: payload.allowReleasedEdit === true,
     });
   }
 
-  async removeBomLink(parentId: string, childId: string) {
-    await this.store.removeBomLink(parentId, childId);
+  async removeBomLink(
+    parentId: string,
+    childId: string,
+    allowReleasedEditQuery?: string,
+    linkId?: string,
+  ) {
+    const allowReleasedEdit = this.parseFlag(
+      allowReleasedEditQuery,
+      'allowReleasedEdit',
+    );
+    await this.store.removeBomLink(
+      parentId,
+      childId,
+      allowReleasedEdit,
+      linkId,
+    );
 
     return {
       message: 'BOM link removed successfully.',
@@ -56,6 +299,52 @@ export class BomService {
     };
   }
 
+  async addBomLinkAlternate(payload: AddBomLinkAlternateDto) {
+    if (!payload.parentId || !payload.childId) {
+      throw new BadRequestException('Both parentId and childId are required.');
+    }
+
+    if (!payload.alternatePartId) {
+      throw new BadRequestException('alternatePartId is required.');
+    }
+
+    return this.store.addBomLinkAlternate({
+      parentId: payload.parentId,
+      childId: payload.childId,
+      linkId: payload.linkId,
+      alternatePartId: payload.alternatePartId,
+      rank: payload.rank,
+      allowReleasedEdit: payload.allowReleasedEdit === true,
+    });
+  }
+
+  async removeBomLinkAlternate(
+    parentId: string,
+    childId: string,
+    alternatePartId: string,
+    allowReleasedEditQuery?: string,
+    linkId?: string,
+  ) {
+    const allowReleasedEdit = this.parseFlag(
+      allowReleasedEditQuery,
+      'allowReleasedEdit',
+    );
+    await this.store.removeBomLinkAlternate(
+      parentId,
+      childId,
+      alternatePartId,
+      allowReleasedEdit,
+      linkId,
+    );
+
+    return {
+      message: 'Alternate removed successfully.',
+      parentId,
+      childId,
+      alternatePartId,
+    };
+  }
+
   private parseDepth(depthQuery?: string): number {
     if (!depthQuery) {
       return 1;
@@ -73,6 +362,23 @@ export class BomService {
     return parsed;
   }
 
+  private parseFlag(flagQuery: string | undefined, name: string): boolean {
+    if (!flagQuery) {
+      return false;
+    }
+
+    const normalized = flagQuery.toLowerCase();
+    if (normalized === 'true') {
+      return true;
+    }
+
+    if (normalized === 'false') {
+      return false;
+    }
+
+    throw new BadRequestException(`${name} must be "true" or "false".`);
+  }
+
   private parseNodeLimit(nodeLimitQuery?: string): number {
     if (!nodeLimitQuery) {
       return this.store.maxExpandNodeLimit;
@@ -85,4 +391,120 @@ export class BomService {
 
     return parsed;
   }
+
+  private parseTimestamp(
+    timestampQuery: string | undefined,
+    name: string,
+  ): Date | undefined {
+    if (!timestampQuery) {
+      return undefined;
+    }
+
+    const timestamp = new Date(timestampQuery);
+    if (Number.isNaN(timestamp.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO 8601 timestamp.`);
+    }
+
+    return timestamp;
+  }
+
+  private parseBatchOperation(
+    operation: BomLinkBatchOperationDto,
+    index: number,
+  ) {
+    const name = `operations[${index}]`;
+    const op =
+      typeof operation?.op === 'string' ? operation.op.toLowerCase() : '';
+    if (!BOM_LINK_BATCH_OPERATIONS.includes(op as BomLinkBatchOperationType)) {
+      throw new BadRequestException(
+        `${name}.op must be one of: ${BOM_LINK_BATCH_OPERATIONS.join(', ')}.`,
+      );
+    }
+
+    if (
+      typeof operation.parentId !== 'string' ||
+      typeof operation.childId !== 'string' ||
+      !operation.parentId ||
+      !operation.childId
+    ) {
+      throw new BadRequestException(
+        `${name} requires both parentId and childId.`,
+      );
+    }
+
+    if (
+      operation.version !== undefined &&
+      (!Number.isInteger(operation.version) || operation.version < 1)
+    ) {
+      throw new BadRequestException(
+        `${name}.version must be a positive integer.`,
+      );
+    }
+
+    return {
+      op: op as BomLinkBatchOperationType,
+      parentId: operation.parentId,
+      childId: operation.childId,
+      linkId: operation.linkId,
+      findNumber: operation.findNumber,
+      quantity: operation.quantity,
+      unit: this.parseUnit(operation.unit, `${name}.unit`),
+      referenceDesignators: this.parseReferenceDesignators(
+        operation.referenceDesignators,
+      ),
+      effectiveFrom: this.parseEffectiveDate(
+        operation.effectiveFrom,
+        `${name}.effectiveFrom`,
+      ),
+      effectiveTo: this.parseEffectiveDate(
+        operation.effectiveTo,
+        `${name}.effectiveTo`,
+      ),
+      expectedVersion: operation.version,
+    };
+  }
+
+  private parseReferenceDesignators(value?: string[]): string[] | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    if (
+      !Array.isArray(value) ||
+      value.some((designator) => typeof designator !== 'string')
+    ) {
+      throw new BadRequestException(
+        'referenceDesignators must be a list of strings.',
+      );
+    }
+
+    return value;
+  }
+
+  private parseEffectiveDate(
+    value: string | null | undefined,
+    name: string,
+  ): Date | null | undefined {
+    if (value === undefined || value === null) {
+      return value;
+    }
+
+    const date = typeof value === 'string' ? new Date(value) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO 8601 timestamp.`);
+    }
+
+    return date;
+  }
+
+  private parseUnit(
+    value: string | undefined,
+    name: string,
+  ): string | undefined {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new BadRequestException(`${name} must be a string.`);
+    }
+
+    return value;
+  }
 }
@@ -0,0 +1,8 @@
+export class AddBomLinkAlternateDto {
+  parentId?: string;
+  childId?: string;
+  linkId?: string;
+  alternatePartId?: string;
+  rank?: number;
+  allowReleasedEdit?: boolean;
+}
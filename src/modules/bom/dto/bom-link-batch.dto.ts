@@ -0,0 +1,18 @@
+export class BomLinkBatchOperationDto {
+  op?: string;
+  parentId?: string;
+  childId?: string;
+  linkId?: string;
+  findNumber?: number;
+  quantity?: number;
+  unit?: string;
+  referenceDesignators?: string[];
+  effectiveFrom?: string | null;
+  effectiveTo?: string | null;
+  version?: number;
+}
+
+export class BomLinkBatchDto {
+  operations?: BomLinkBatchOperationDto[];
+  allowReleasedEdit?: boolean;
+}
@@ -1,5 +1,11 @@
 export class CreateBomLinkDto {
   parentId?: string;
   childId?: string;
+  findNumber?: number;
   quantity?: number;
+  unit?: string;
+  referenceDesignators?: string[];
+  effectiveFrom?: string | null;
+  effectiveTo?: string | null;
+  allowReleasedEdit?: boolean;
 }
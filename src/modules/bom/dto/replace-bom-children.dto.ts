@@ -0,0 +1,11 @@
+export class BomChildDto {
+  childId?: string;
+  quantity?: number;
+  unit?: string;
+  referenceDesignators?: string[];
+}
+
+export class ReplaceBomChildrenDto {
+  children?: BomChildDto[];
+  allowReleasedEdit?: boolean;
+}
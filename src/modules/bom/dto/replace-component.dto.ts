@@ -0,0 +1,6 @@
+export class ReplaceComponentDto {
+  replacementPartId?: string;
+  parentIds?: string[];
+  quantityMultiplier?: number;
+  allowReleasedEdit?: boolean;
+}
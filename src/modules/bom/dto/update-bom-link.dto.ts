@@ -1,5 +1,13 @@
 export class UpdateBomLinkDto {
   parentId?: string;
   childId?: string;
+  linkId?: string;
+  findNumber?: number;
   quantity?: number;
+  unit?: string;
+  referenceDesignators?: string[];
+  effectiveFrom?: string | null;
+  effectiveTo?: string | null;
+  allowReleasedEdit?: boolean;
+  version?: number;
 }
@@ -0,0 +1,52 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '../../core/auth/auth.guard';
+import { RequireRole } from '../../core/auth/roles';
+import { CategoriesService } from './categories.service';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+
+@UseGuards(AuthGuard)
+@Controller('categories')
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  @Get()
+  getCategoryTree() {
+    return this.categoriesService.getCategoryTree();
+  }
+
+  @Post()
+  @RequireRole('admin')
+  createCategory(@Body() payload: CreateCategoryDto) {
+    return this.categoriesService.createCategory(payload);
+  }
+
+  @Get(':categoryId')
+  getCategory(@Param('categoryId') categoryId: string) {
+    return this.categoriesService.getCategory(categoryId);
+  }
+
+  @Put(':categoryId')
+  @RequireRole('admin')
+  updateCategory(
+    @Param('categoryId') categoryId: string,
+    @Body() payload: UpdateCategoryDto,
+  ) {
+    return this.categoriesService.updateCategory(categoryId, payload);
+  }
+
+  @Delete(':categoryId')
+  @RequireRole('admin')
+  deleteCategory(@Param('categoryId') categoryId: string) {
+    return this.categoriesService.deleteCategory(categoryId);
+  }
+}
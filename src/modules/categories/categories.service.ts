@@ -0,0 +1,83 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PartBomStoreService } from '../../core/part-bom/part-bom-store.service';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+
+@Injectable()
+export class CategoriesService {
+  constructor(private readonly store: PartBomStoreService) {}
+
+  async getCategoryTree() {
+    return this.store.getCategoryTree();
+  }
+
+  async getCategory(categoryId: string) {
+    return this.store.getCategory(categoryId);
+  }
+
+  async createCategory(payload: CreateCategoryDto) {
+    if (typeof payload.name !== 'string' || !payload.name.trim()) {
+      throw new BadRequestException('Category name is required.');
+    }
+
+    return this.store.createCategory({
+      name: payload.name,
+      parentId: payload.parentId,
+      partNumberPrefix: payload.partNumberPrefix,
+      requiredAttributes: this.parseRequiredAttributes(
+        payload.requiredAttributes,
+      ),
+    });
+  }
+
+  async updateCategory(categoryId: string, payload: UpdateCategoryDto) {
+    if (
+      payload.name === undefined &&
+      payload.parentId === undefined &&
+      payload.partNumberPrefix === undefined &&
+      payload.requiredAttributes === undefined
+    ) {
+      throw new BadRequestException(
+        'At least one field must be provided for update.',
+      );
+    }
+
+    return this.store.updateCategory(categoryId, {
+      name: payload.name,
+      parentId: payload.parentId,
+      partNumberPrefix: payload.partNumberPrefix,
+      requiredAttributes: this.parseRequiredAttributes(
+        payload.requiredAttributes,
+      ),
+    });
+  }
+
+  async deleteCategory(categoryId: string) {
+    const category = await this.store.deleteCategory(categoryId);
+
+    return {
+      message: 'Category deleted successfully.',
+      categoryId: category.id,
+      name: category.name,
+    };
+  }
+
+  private parseRequiredAttributes(
+    requiredAttributes: unknown,
+  ): string[] | undefined {
+    if (requiredAttributes === undefined) {
+      return undefined;
+    }
+
+    if (
+      !Array.isArray(requiredAttributes) ||
+      requiredAttributes.some((key) => typeof key !== 'string')
+    ) {
+      throw new BadRequestException(
+        'requiredAttributes must be an array of attribute keys.',
+      );
+    }
+
+    return requiredAttributes as string[];
+  }
+}
@@ -0,0 +1,6 @@
+export class UpdateCategoryDto {
+  name?: string;
+  parentId?: string | null;
+  partNumberPrefix?: string | null;
+  requiredAttributes?: string[];
+}
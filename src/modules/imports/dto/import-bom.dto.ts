@@ -0,0 +1,6 @@
+export class ImportBomDto {
+  partsCsv?: string;
+  linksCsv?: string;
+  dryRun?: boolean;
+  allowReleasedEdit?: boolean;
+}
@@ -0,0 +1,17 @@
+import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '../../core/auth/auth.guard';
+import { RequireRole } from '../../core/auth/roles';
+import { ImportBomDto } from './dto/import-bom.dto';
+import { ImportsService } from './imports.service';
+
+@UseGuards(AuthGuard)
+@Controller('imports')
+export class ImportsController {
+  constructor(private readonly importsService: ImportsService) {}
+
+  @Post('bom')
+  @RequireRole('editor')
+  importBom(@Body() payload: ImportBomDto) {
+    return this.importsService.importBom(payload);
+  }
+}
@@ -0,0 +1,175 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { CsvLine, parseCsv } from '../../core/part-bom/csv';
+import { PartBomStoreService } from '../../core/part-bom/part-bom-store.service';
+import { ImportBomDto } from './dto/import-bom.dto';
+
+interface CsvRecord {
+  row: number;
+  values: Map<string, string>;
+}
+
+const PART_COLUMNS = [
+  'partNumber',
+  'name',
+  'description',
+  'unit',
+  'unitCost',
+  'currency',
+];
+const REQUIRED_PART_COLUMNS = ['partNumber', 'name'];
+const ATTRIBUTE_COLUMN_PREFIX = 'attributes.';
+const LINK_COLUMNS = [
+  'parentPartNumber',
+  'childPartNumber',
+  'findNumber',
+  'quantity',
+  'unit',
+  'referenceDesignators',
+];
+const REQUIRED_LINK_COLUMNS = [
+  'parentPartNumber',
+  'childPartNumber',
+  'quantity',
+];
+
+@Injectable()
+export class ImportsService {
+  constructor(private readonly store: PartBomStoreService) {}
+
+  async importBom(payload: ImportBomDto) {
+    if (payload.partsCsv === undefined && payload.linksCsv === undefined) {
+      throw new BadRequestException(
+        'At least one of partsCsv or linksCsv is required.',
+      );
+    }
+
+    const partRecords = this.readCsv(
+      payload.partsCsv,
+      'partsCsv',
+      PART_COLUMNS,
+      REQUIRED_PART_COLUMNS,
+      true,
+    );
+    const linkRecords = this.readCsv(
+      payload.linksCsv,
+      'linksCsv',
+      LINK_COLUMNS,
+      REQUIRED_LINK_COLUMNS,
+    );
+
+    return this.store.importBom({
+      parts: partRecords.map((record) => ({
+        row: record.row,
+        partNumber: record.values.get('partNumber') ?? '',
+        name: record.values.get('name') ?? '',
+        description: record.values.get('description'),
+        unit: record.values.get('unit'),
+        unitCost: this.parseNumber(record.values.get('unitCost')),
+        currency: record.values.get('currency'),
+        attributes: this.readAttributeColumns(record),
+      })),
+      links: linkRecords.map((record) => ({
+        row: record.row,
+        parentPartNumber: record.values.get('parentPartNumber') ?? '',
+        childPartNumber: record.values.get('childPartNumber') ?? '',
+        findNumber: this.parseNumber(record.values.get('findNumber')),
+        quantity: this.parseNumber(record.values.get('quantity')) ?? Number.NaN,
+        unit: record.values.get('unit'),
+        referenceDesignators: record.values
+          .get('referenceDesignators')
+          ?.split(/[\s,;]+/)
+          .filter((designator) => designator.length > 0),
+      })),
+      dryRun: payload.dryRun === true,
+      allowReleasedEdit: payload.allowReleasedEdit === true,
+    });
+  }
+
+  private readCsv(
+    csv: string | undefined,
+    name: string,
+    columns: string[],
+    requiredColumns: string[],
+    allowAttributeColumns = false,
+  ): CsvRecord[] {
+    if (csv === undefined) {
+      return [];
+    }
+
+    if (typeof csv !== 'string') {
+      throw new BadRequestException(`${name} must be CSV text.`);
+    }
+
+    let records: CsvLine[];
+    try {
+      records = parseCsv(csv);
+    } catch (error) {
+      throw new BadRequestException(
+        `${name} could not be parsed: ${(error as Error).message}`,
+      );
+    }
+
+    if (records.length === 0) {
+      throw new BadRequestException(`${name} must include a header row.`);
+    }
+
+    const header = records[0].values.map((value) => {
+      const normalized = value.trim().toLowerCase();
+      if (
+        allowAttributeColumns &&
+        normalized.startsWith(ATTRIBUTE_COLUMN_PREFIX)
+      ) {
+        return normalized;
+      }
+
+      return columns.find((column) => column.toLowerCase() === normalized);
+    });
+
+    const missingColumns = requiredColumns.filter(
+      (column) => !header.includes(column),
+    );
+    if (missingColumns.length > 0) {
+      throw new BadRequestException(
+        `${name} is missing required column(s): ${missingColumns.join(', ')}.`,
+      );
+    }
+
+    return records.slice(1).map(({ line, values }) => {
+      const record: CsvRecord = {
+        row: line,
+        values: new Map(),
+      };
+
+      header.forEach((column, columnIndex) => {
+        const value = values[columnIndex]?.trim();
+        if (column && value) {
+          record.values.set(column, value);
+        }
+      });
+
+      return record;
+    });
+  }
+
+  private readAttributeColumns(
+    record: CsvRecord,
+  ): Record<string, string> | undefined {
+    const attributes: Record<string, string> = {};
+
+    for (const [column, value] of record.values) {
+      if (column.startsWith(ATTRIBUTE_COLUMN_PREFIX)) {
+        attributes[column.slice(ATTRIBUTE_COLUMN_PREFIX.length)] = value;
+      }
+    }
+
+    return Object.keys(attributes).length > 0 ? attributes : undefined;
+  }
+
+  private parseNumber(value: string | undefined): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    return Number(value);
+  }
+}
@@ -0,0 +1,4 @@
+export class AddPartAlternateDto {
+  alternatePartId?: string;
+  rank?: number;
+}
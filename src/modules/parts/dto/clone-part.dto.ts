@@ -0,0 +1,7 @@
+export class ClonePartDto {
+  partNumber?: string;
+  name?: string;
+  depth?: number;
+  partNumberPrefix?: string;
+  partNumberSuffix?: string;
+}
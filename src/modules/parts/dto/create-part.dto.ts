@@ -2,4 +2,9 @@ export class CreatePartDto {
   partNumber?: string;
   name?: string;
   description?: string;
+  unitCost?: number | null;
+  currency?: string;
+  unit?: string;
+  attributes?: Record<string, unknown>;
+  categoryId?: string | null;
 }
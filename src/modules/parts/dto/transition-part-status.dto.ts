@@ -0,0 +1,3 @@
+export class TransitionPartStatusDto {
+  status?: string;
+}
@@ -2,4 +2,10 @@ export class UpdatePartDto {
   partNumber?: string;
   name?: string;
   description?: string;
+  unitCost?: number | null;
+  currency?: string;
+  unit?: string;
+  attributes?: Record<string, unknown>;
+  categoryId?: string | null;
+  version?: number;
 }
@@ -1,8 +1,28 @@
-import { Body, Controller, Get, Param, Post, Put, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Param,
+  Post,
+  Put,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { AuthGuard } from '../../core/auth/auth.guard';
+import { RequireRole } from '../../core/auth/roles';
+import { formatEntityTag } from '../../core/part-bom/entity-tag';
+import { AddPartAlternateDto } from './dto/add-part-alternate.dto';
+import { ClonePartDto } from './dto/clone-part.dto';
 import { CreatePartDto } from './dto/create-part.dto';
+import { TransitionPartStatusDto } from './dto/transition-part-status.dto';
 import { UpdatePartDto } from './dto/update-part.dto';
 import { PartsService } from './parts.service';
 
+@UseGuards(AuthGuard)
 @Controller('parts')
 export class PartsController {
   constructor(private readonly partsService: PartsService) {}
@@ -12,27 +32,119 @@ export class PartsController {
     @Query('partNumber') partNumber?: string,
     @Query('name') name?: string,
     @Query('q') q?: string,
+    @Query('attribute') attribute?: string | string[],
+    @Query('categoryId') categoryId?: string,
+    @Query('mode') mode?: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+    @Query('sortBy') sortBy?: string,
+    @Query('sortOrder') sortOrder?: string,
   ) {
-    return this.partsService.searchParts({ partNumber, name, q });
+    return this.partsService.searchParts({
+      partNumber,
+      name,
+      q,
+      attribute,
+      categoryId,
+      mode,
+      limit,
+      cursor,
+      sortBy,
+      sortOrder,
+    });
   }
 
   @Post()
+  @RequireRole('editor')
   createPart(@Body() payload: CreatePartDto) {
     return this.partsService.createPart(payload);
   }
 
   @Put(':partId')
-  updatePart(@Param('partId') partId: string, @Body() payload: UpdatePartDto) {
-    return this.partsService.updatePart(partId, payload);
+  @RequireRole('editor')
+  async updatePart(
+    @Param('partId') partId: string,
+    @Body() payload: UpdatePartDto,
+    @Res({ passthrough: true }) response: Response,
+    @Headers('if-match') ifMatch?: string,
+  ) {
+    const part = await this.partsService.updatePart(partId, payload, ifMatch);
+
+    response.setHeader('ETag', formatEntityTag(part.version));
+
+    return part;
+  }
+
+  @Post(':partId/status')
+  @RequireRole('editor')
+  transitionPartStatus(
+    @Param('partId') partId: string,
+    @Body() payload: TransitionPartStatusDto,
+  ) {
+    return this.partsService.transitionPartStatus(partId, payload);
+  }
+
+  @Post(':partId/revisions')
+  @RequireRole('editor')
+  createPartRevision(@Param('partId') partId: string) {
+    return this.partsService.createPartRevision(partId);
+  }
+
+  @Post(':partId/clone')
+  @RequireRole('editor')
+  clonePart(@Param('partId') partId: string, @Body() payload: ClonePartDto) {
+    return this.partsService.clonePart(partId, payload);
+  }
+
+  @Post(':partId/alternates')
+  @RequireRole('editor')
+  addPartAlternate(
+    @Param('partId') partId: string,
+    @Body() payload: AddPartAlternateDto,
+  ) {
+    return this.partsService.addPartAlternate(partId, payload);
+  }
+
+  @Delete(':partId/alternates/:alternatePartId')
+  @RequireRole('editor')
+  removePartAlternate(
+    @Param('partId') partId: string,
+    @Param('alternatePartId') alternatePartId: string,
+  ) {
+    return this.partsService.removePartAlternate(partId, alternatePartId);
+  }
+
+  @Delete(':partId')
+  @RequireRole('editor')
+  deletePart(
+    @Param('partId') partId: string,
+    @Query('force') force?: string,
+    @Query('allowReleasedEdit') allowReleasedEdit?: string,
+  ) {
+    return this.partsService.deletePart(partId, force, allowReleasedEdit);
   }
 
   @Get(':partId/audit-logs')
-  getPartAuditLogs(@Param('partId') partId: string) {
-    return this.partsService.getPartAuditLogs(partId);
+  getPartAuditLogs(
+    @Param('partId') partId: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.partsService.getPartAuditLogs(partId, limit, cursor);
   }
 
   @Get(':partId')
-  getPartDetails(@Param('partId') partId: string) {
-    return this.partsService.getPartDetails(partId);
+  async getPartDetails(
+    @Param('partId') partId: string,
+    @Res({ passthrough: true }) response: Response,
+    @Query('asOf') asOf?: string,
+  ) {
+    const details = await this.partsService.getPartDetails(partId, asOf);
+
+    if (asOf === undefined) {
+      response.setHeader('ETag', formatEntityTag(details.version));
+    }
+
+    return details;
   }
 }
@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../../core/auth/auth.module';
 import { PartBomModule } from '../../core/part-bom/part-bom.module';
 import { PartsController } from './parts.controller';
 import { PartsService } from './parts.service';
 
 @Module({
-  imports: [PartBomModule],
+  imports: [AuthModule, PartBomModule],
   controllers: [PartsController],
   providers: [PartsService],
 })
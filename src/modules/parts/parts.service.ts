@@ -1,42 +1,120 @@
 import { BadRequestException, Injectable } from '@nestjs/common';
+import { resolveExpectedVersion } from '../../core/part-bom/entity-tag';
 import { PartBomStoreService } from '../../core/part-bom/part-bom-store.service';
-import { PartSearchFilters } from '../../core/part-bom/part-bom.models';
+import {
+  PartSearchFilters,
+  PartSortField,
+  PartStatus,
+  SortOrder,
+} from '../../core/part-bom/part-bom.models';
+import { AddPartAlternateDto } from './dto/add-part-alternate.dto';
+import { ClonePartDto } from './dto/clone-part.dto';
 import { CreatePartDto } from './dto/create-part.dto';
+import { TransitionPartStatusDto } from './dto/transition-part-status.dto';
 import { UpdatePartDto } from './dto/update-part.dto';
 
+const PART_STATUSES: PartStatus[] = ['DRAFT', 'RELEASED', 'OBSOLETE'];
+const PART_SORT_FIELDS: PartSortField[] = [
+  'partNumber',
+  'name',
+  'createdAt',
+  'updatedAt',
+];
+const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+
+interface PartSearchQuery extends Omit<PartSearchFilters, 'attributes'> {
+  attribute?: string | string[];
+  mode?: string;
+  limit?: string;
+  cursor?: string;
+  sortBy?: string;
+  sortOrder?: string;
+}
+
 @Injectable()
 export class PartsService {
   constructor(private readonly store: PartBomStoreService) {}
 
-  async searchParts(filters: PartSearchFilters) {
-    return this.store.searchParts(filters);
+  async searchParts(query: PartSearchQuery) {
+    const mode = query.mode?.toLowerCase();
+    if (mode === 'fulltext') {
+      return this.searchPartsFullText(query);
+    }
+
+    if (mode !== undefined && mode !== 'contains') {
+      throw new BadRequestException('mode must be "contains" or "fulltext".');
+    }
+
+    const sortBy = query.sortBy ?? 'partNumber';
+    if (!PART_SORT_FIELDS.includes(sortBy as PartSortField)) {
+      throw new BadRequestException(
+        `sortBy must be one of: ${PART_SORT_FIELDS.join(', ')}.`,
+      );
+    }
+
+    const sortOrder = query.sortOrder?.toLowerCase() ?? 'asc';
+    if (!SORT_ORDERS.includes(sortOrder as SortOrder)) {
+      throw new BadRequestException('sortOrder must be "asc" or "desc".');
+    }
+
+    return this.store.searchParts(
+      {
+        partNumber: query.partNumber,
+        name: query.name,
+        q: query.q,
+        attributes: this.parseAttributeFilters(query.attribute),
+        categoryId: query.categoryId,
+      },
+      {
+        limit: this.parseLimit(query.limit),
+        cursor: query.cursor,
+        sortBy: sortBy as PartSortField,
+        sortOrder: sortOrder as SortOrder,
+      },
+    );
   }
 
-  async getPartDetails(partId: string) {
-    return this.store.getPartDetails(partId);
+  async getPartDetails(partId: string, asOfQuery?: string) {
+    const asOf = this.parseAsOf(asOfQuery);
+
+    return this.store.getPartDetails(partId, asOf);
   }
 
-  async getPartAuditLogs(partId: string) {
-    return this.store.getPartAuditLogs(partId);
+  async getPartAuditLogs(partId: string, limitQuery?: string, cursor?: string) {
+    return this.store.getPartAuditLogs(partId, {
+      limit: this.parseLimit(limitQuery),
+      cursor,
+    });
   }
 
   async createPart(payload: CreatePartDto) {
-    if (!payload.name || !payload.name.trim()) {
+    const name = this.parseText(payload.name, 'name');
+    if (!name || !name.trim()) {
       throw new BadRequestException('Part name is required.');
     }
 
     return this.store.createPart({
-      partNumber: payload.partNumber,
-      name: payload.name,
-      description: payload.description,
+      partNumber: this.parseText(payload.partNumber, 'partNumber'),
+      name,
+      description: this.parseText(payload.description, 'description'),
+      unitCost: payload.unitCost,
+      currency: this.parseText(payload.currency, 'currency'),
+      unit: this.parseText(payload.unit, 'unit'),
+      attributes: this.parseAttributes(payload.attributes),
+      categoryId: payload.categoryId,
     });
   }
 
-  async updatePart(partId: string, payload: UpdatePartDto) {
+  async updatePart(partId: string, payload: UpdatePartDto, ifMatch?: string) {
     if (
       payload.name === undefined &&
       payload.description === undefined &&
-      payload.partNumber === undefined
+      payload.partNumber === undefined &&
+      payload.unitCost === undefined &&
+      payload.currency === undefined &&
+      payload.unit === undefined &&
+      payload.attributes === undefined &&
+      payload.categoryId === undefined
     ) {
       throw new BadRequestException(
         'At least one field must be provided for update.',
@@ -44,9 +122,240 @@ export class PartsService {
     }
 
     return this.store.updatePart(partId, {
+      expectedVersion: resolveExpectedVersion(ifMatch, payload.version),
+      partNumber: this.parseText(payload.partNumber, 'partNumber'),
+      name: this.parseText(payload.name, 'name'),
+      description: this.parseText(payload.description, 'description'),
+      unitCost: payload.unitCost,
+      currency: this.parseText(payload.currency, 'currency'),
+      unit: this.parseText(payload.unit, 'unit'),
+      attributes: this.parseAttributes(payload.attributes),
+      categoryId: payload.categoryId,
+    });
+  }
+
+  async transitionPartStatus(partId: string, payload: TransitionPartStatusDto) {
+    if (payload.status !== undefined && typeof payload.status !== 'string') {
+      throw new BadRequestException('Status must be a string.');
+    }
+
+    const status = payload.status?.trim().toUpperCase();
+    if (!status) {
+      throw new BadRequestException('Status is required.');
+    }
+
+    if (!PART_STATUSES.includes(status as PartStatus)) {
+      throw new BadRequestException(
+        `Status must be one of: ${PART_STATUSES.join(', ')}.`,
+      );
+    }
+
+    return this.store.transitionPartStatus(partId, status as PartStatus);
+  }
+
+  async createPartRevision(partId: string) {
+    return this.store.createPartRevision(partId);
+  }
+
+  async clonePart(partId: string, payload: ClonePartDto) {
+    if (payload.depth !== undefined && typeof payload.depth !== 'number') {
+      throw new BadRequestException('depth must be a number.');
+    }
+
+    for (const field of [
+      'partNumber',
+      'name',
+      'partNumberPrefix',
+      'partNumberSuffix',
+    ] as const) {
+      if (payload[field] !== undefined && typeof payload[field] !== 'string') {
+        throw new BadRequestException(`${field} must be a string.`);
+      }
+    }
+
+    return this.store.clonePart(partId, {
       partNumber: payload.partNumber,
       name: payload.name,
-      description: payload.description,
+      depth: payload.depth ?? 1,
+      partNumberPrefix: payload.partNumberPrefix,
+      partNumberSuffix: payload.partNumberSuffix,
+    });
+  }
+
+  async addPartAlternate(partId: string, payload: AddPartAlternateDto) {
+    if (!payload.alternatePartId) {
+      throw new BadRequestException('alternatePartId is required.');
+    }
+
+    return this.store.addPartAlternate(partId, {
+      alternatePartId: payload.alternatePartId,
+      rank: payload.rank,
     });
   }
+
+  async removePartAlternate(partId: string, alternatePartId: string) {
+    await this.store.removePartAlternate(partId, alternatePartId);
+
+    return {
+      message: 'Alternate removed successfully.',
+      partId,
+      alternatePartId,
+    };
+  }
+
+  async deletePart(
+    partId: string,
+    forceQuery?: string,
+    allowReleasedEditQuery?: string,
+  ) {
+    const force = this.parseFlag(forceQuery, 'force');
+    const allowReleasedEdit = this.parseFlag(
+      allowReleasedEditQuery,
+      'allowReleasedEdit',
+    );
+    const result = await this.store.deletePart(
+      partId,
+      force,
+      allowReleasedEdit,
+    );
+
+    return {
+      message: 'Part deleted successfully.',
+      ...result,
+    };
+  }
+
+  private parseText(
+    value: string | undefined,
+    name: string,
+  ): string | undefined {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new BadRequestException(`${name} must be a string.`);
+    }
+
+    return value;
+  }
+
+  private parseFlag(flagQuery: string | undefined, name: string): boolean {
+    if (!flagQuery) {
+      return false;
+    }
+
+    const normalized = flagQuery.toLowerCase();
+    if (normalized === 'true') {
+      return true;
+    }
+
+    if (normalized === 'false') {
+      return false;
+    }
+
+    throw new BadRequestException(`${name} must be "true" or "false".`);
+  }
+
+  private async searchPartsFullText(query: PartSearchQuery) {
+    if (!query.q?.trim()) {
+      throw new BadRequestException('q is required for full-text search.');
+    }
+
+    if (
+      query.partNumber !== undefined ||
+      query.name !== undefined ||
+      query.attribute !== undefined ||
+      query.categoryId !== undefined
+    ) {
+      throw new BadRequestException(
+        'partNumber, name, attribute and categoryId filters cannot be combined with full-text search.',
+      );
+    }
+
+    if (
+      (query.sortBy !== undefined && query.sortBy !== 'relevance') ||
+      (query.sortOrder !== undefined && query.sortOrder !== 'desc')
+    ) {
+      throw new BadRequestException(
+        'Full-text search results are always sorted by relevance.',
+      );
+    }
+
+    return this.store.searchPartsFullText(query.q, {
+      limit: this.parseLimit(query.limit),
+      cursor: query.cursor,
+    });
+  }
+
+  private parseAttributes(
+    attributes: unknown,
+  ): Record<string, unknown> | undefined {
+    if (attributes === undefined) {
+      return undefined;
+    }
+
+    if (
+      attributes === null ||
+      typeof attributes !== 'object' ||
+      Array.isArray(attributes)
+    ) {
+      throw new BadRequestException('attributes must be an object.');
+    }
+
+    return attributes as Record<string, unknown>;
+  }
+
+  private parseAttributeFilters(
+    attributeQuery?: string | string[],
+  ): Record<string, string> | undefined {
+    if (attributeQuery === undefined) {
+      return undefined;
+    }
+
+    const filters: Record<string, string> = {};
+    const values = Array.isArray(attributeQuery)
+      ? attributeQuery
+      : [attributeQuery];
+
+    for (const value of values) {
+      const separatorIndex = value.indexOf(':');
+      const key = value.slice(0, separatorIndex).trim();
+      if (separatorIndex < 0 || !key) {
+        throw new BadRequestException('attribute must look like key:value.');
+      }
+
+      if (filters[key] !== undefined) {
+        throw new BadRequestException(
+          `attribute '${key}' can only be filtered once.`,
+        );
+      }
+
+      filters[key] = value.slice(separatorIndex + 1);
+    }
+
+    return filters;
+  }
+
+  private parseLimit(limitQuery?: string): number {
+    if (!limitQuery) {
+      return this.store.defaultPageSize;
+    }
+
+    const parsed = Number.parseInt(limitQuery, 10);
+    if (Number.isNaN(parsed)) {
+      throw new BadRequestException('limit must be a number.');
+    }
+
+    return parsed;
+  }
+
+  private parseAsOf(asOfQuery?: string): Date | undefined {
+    if (!asOfQuery) {
+      return undefined;
+    }
+
+    const asOf = new Date(asOfQuery);
+    if (Number.isNaN(asOf.getTime())) {
+      throw new BadRequestException('asOf must be an ISO 8601 timestamp.');
+    }
+
+    return asOf;
+  }
 }
@@ -30,3 +30,10 @@ export function ensureDatabaseUrlLoaded(): void {
 
   envLoadAttempted = true;
 }
+
+export function getCorsOrigins(): string[] {
+  return (process.env.CORS_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter((origin) => origin.length > 0);
+}
@@ -1,4 +1,5 @@
 import { INestApplication } from '@nestjs/common';
+import { createHmac } from 'node:crypto';
 import { Test, TestingModule } from '@nestjs/testing';
 import { PrismaClient } from '@prisma/client';
 import request from 'supertest';
@@ -17,8 +18,49 @@ interface PartSummaryResponse {
   name: string;
 }
 
+interface BomAlternateResponse {
+  id: string;
+  part: PartSummaryResponse;
+  rank: number;
+  scope: string;
+  linkId?: string;
+}
+
+interface CategoryResponse {
+  id: string;
+  name: string;
+  path: string[];
+  parentId?: string;
+  partNumberPrefix?: string;
+  requiredAttributes: string[];
+  partCount: number;
+  children?: CategoryResponse[];
+}
+
+interface PartSearchResponse {
+  items: (PartSummaryResponse & { rank?: number; snippet?: string })[];
+  total: number;
+  limit: number;
+  nextCursor: string | null;
+}
+
 interface ChildPartResponse extends PartSummaryResponse {
   quantity: number;
+  linkId: string;
+  findNumber: number;
+  referenceDesignators: string[];
+  alternates: BomAlternateResponse[];
+  effectiveFrom?: string;
+  effectiveTo?: string;
+}
+
+interface PartRevisionResponse {
+  code: string;
+  status: string;
+  name: string;
+  childCount: number;
+  isCurrent: boolean;
+  releasedAt?: string;
 }
 
 interface PartDetailsResponse {
@@ -26,10 +68,18 @@ interface PartDetailsResponse {
   partNumber: string;
   name: string;
   description: string;
+  status: string;
+  revision: string;
   parentCount: number;
   childCount: number;
   parentParts: PartSummaryResponse[];
   childParts: ChildPartResponse[];
+  alternates: BomAlternateResponse[];
+  revisions: PartRevisionResponse[];
+  asOf?: string;
+  isHistoryComplete?: boolean;
+  attributes: Record<string, string | number | boolean>;
+  category?: Pick<CategoryResponse, 'id' | 'name' | 'path'>;
 }
 
 interface AuditLogResponse {
@@ -38,6 +88,15 @@ interface AuditLogResponse {
   action: string;
   message: string;
   timestamp: string;
+  actor?: string;
+  metadata?: Record<string, string | number>;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+interface AuditLogPageResponse {
+  items: AuditLogResponse[];
+  limit: number;
+  nextCursor: string | null;
 }
 
 interface BomTreeNodeResponse {
@@ -46,38 +105,195 @@ interface BomTreeNodeResponse {
     partNumber: string;
     name: string;
   };
+  revision: string;
+  findNumber?: number;
   quantityFromParent?: number;
+  referenceDesignators?: string[];
+  alternates?: BomAlternateResponse[];
   hasChildren: boolean;
   children: BomTreeNodeResponse[];
 }
 
 interface BomTreeResponse {
   rootPartId: string;
+  revision: string;
   requestedDepth: number;
   nodeLimit: number;
   nodeCount: number;
   tree: BomTreeNodeResponse;
+  asOf?: string;
+  isHistoryComplete?: boolean;
+}
+
+interface WhereUsedNodeResponse {
+  part: PartSummaryResponse;
+  quantityUsed?: number;
+  isTopLevel: boolean;
+  parents: WhereUsedNodeResponse[];
+}
+
+interface WhereUsedResponse {
+  partId: string;
+  requestedDepth: number;
+  nodeCount: number;
+  topLevelParts: PartSummaryResponse[];
+  tree: WhereUsedNodeResponse;
+}
+
+interface FlatBomResponse {
+  rootPartId: string;
+  revision: string;
+  itemCount: number;
+  items: {
+    part: PartSummaryResponse;
+    totalQuantity: number;
+    lowestLevel: number;
+    isLeaf: boolean;
+  }[];
+}
+
+interface BomCostRollupResponse {
+  currency: string;
+  totalCost: number;
+  isComplete: boolean;
+  assemblies: {
+    part: PartSummaryResponse;
+    unitCost?: number;
+    materialCost: number;
+    totalCost: number;
+  }[];
+  missingCostParts: PartSummaryResponse[];
+  currencyMismatchParts: PartSummaryResponse[];
 }
 
 interface BomLinkResponse {
+  id: string;
   parentId: string;
   childId: string;
   quantity: number;
+  version: number;
   createdAt: string;
 }
 
+interface BomLinkBatchResponse {
+  operationCount: number;
+  results: { index: number; op: string; link: BomLinkResponse }[];
+}
+
+interface BomLinkBatchErrorResponse extends ErrorResponse {
+  errors: { index: number; message: string }[];
+}
+
+interface BomChildChangeResponse {
+  part: PartSummaryResponse;
+  linkId: string;
+  fromQuantity?: number;
+  toQuantity?: number;
+}
+
+interface BomChildrenReplaceResponse {
+  isChanged: boolean;
+  added: BomChildChangeResponse[];
+  removed: BomChildChangeResponse[];
+  changed: BomChildChangeResponse[];
+  unchangedCount: number;
+}
+
+interface PartCloneResponse {
+  part: CreatedPartResponse & { status: string; revision: string };
+  depth: number;
+  copiedParts: { source: PartSummaryResponse; part: PartSummaryResponse }[];
+  linkCount: number;
+}
+
+interface ComponentReplaceResponse {
+  parentCount: number;
+  linkCount: number;
+  parents: {
+    parent: PartSummaryResponse;
+    links: {
+      fromQuantity: number;
+      toQuantity: number;
+      findNumber: number;
+      removedAlternates: BomAlternateResponse[];
+    }[];
+  }[];
+}
+
+interface PreconditionFailedResponse<T> extends ErrorResponse {
+  current: T;
+}
+
 interface DeleteBomLinkResponse {
   message: string;
   parentId: string;
   childId: string;
 }
 
+interface DeletePartResponse {
+  message: string;
+  partId: string;
+  partNumber: string;
+  detachedParents: PartSummaryResponse[];
+  detachedChildren: PartSummaryResponse[];
+}
+
+interface PartInUseErrorResponse {
+  statusCode: number;
+  message: string;
+  parentParts: PartSummaryResponse[];
+  usages?: { linkId: string; revision: string; status: string }[];
+}
+
+interface BomDiffEntryResponse {
+  part: PartSummaryResponse;
+  path: string[];
+  leftQuantity?: number;
+  rightQuantity?: number;
+}
+
+interface BomCompareResponse {
+  isIdentical: boolean;
+  requestedDepth: number;
+  levels: {
+    level: number;
+    added: BomDiffEntryResponse[];
+    removed: BomDiffEntryResponse[];
+    quantityChanged: BomDiffEntryResponse[];
+  }[];
+}
+
+interface BomImportResponse {
+  dryRun: boolean;
+  isValid: boolean;
+  partCount: number;
+  linkCount: number;
+  errorCount: number;
+  errors: {
+    file: string;
+    row: number;
+    message: string;
+  }[];
+  parts?: CreatedPartResponse[];
+  links?: BomLinkResponse[];
+}
+
+interface BomImportErrorResponse {
+  statusCode: number;
+  message: string;
+  errors: BomImportResponse['errors'];
+}
+
 interface ErrorResponse {
   statusCode: number;
   message: string | string[];
   error: string;
 }
 
+function waitForNextTimestamp(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
 function getErrorMessage(body: ErrorResponse): string {
   if (Array.isArray(body.message)) {
     return body.message.join(', ');
@@ -88,6 +304,7 @@ function getErrorMessage(body: ErrorResponse): string {
 
 const originalDatabaseUrl = process.env.DATABASE_URL;
 const originalSeedSampleData = process.env.SEED_SAMPLE_DATA;
+const originalAuthDisabled = process.env.AUTH_DISABLED;
 const testDatabaseUrl =
   process.env.TEST_DATABASE_URL ?? process.env.DATABASE_URL;
 
@@ -108,7 +325,10 @@ function api(app: INestApplication<App>) {
 async function resetDatabase(prisma: PrismaClient): Promise<void> {
   await prisma.auditLog.deleteMany();
   await prisma.bomLink.deleteMany();
+  await prisma.partRevision.deleteMany();
   await prisma.part.deleteMany();
+  await prisma.category.deleteMany();
+  await prisma.attributeDefinition.deleteMany();
 }
 
 const describeWithDatabase = testDatabaseUrl ? describe : describe.skip;
@@ -120,6 +340,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
   beforeAll(async () => {
     process.env.DATABASE_URL = testDatabaseUrl;
     process.env.SEED_SAMPLE_DATA = 'false';
+    process.env.AUTH_DISABLED = 'true';
 
     prisma = new PrismaClient();
     await prisma.$connect();
@@ -149,6 +370,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
 
     process.env.DATABASE_URL = originalDatabaseUrl;
     process.env.SEED_SAMPLE_DATA = originalSeedSampleData;
+    process.env.AUTH_DISABLED = originalAuthDisabled;
   });
 
   async function createPart(name: string, partNumber?: string) {
@@ -163,6 +385,17 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     return response.body as CreatedPartResponse;
   }
 
+  async function linkParts(parentId: string, childId: string, quantity = 1) {
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId,
+        childId,
+        quantity,
+      })
+      .expect(201);
+  }
+
   it('/health (GET)', async () => {
     await api(app).get('/health').expect(200).expect({
       status: 'ok',
@@ -180,7 +413,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
       .get('/parts')
       .query({ q: 'controller' })
       .expect(200);
-    const searchResults = searchResponse.body as PartSummaryResponse[];
+    const searchResults = (searchResponse.body as PartSearchResponse).items;
 
     expect(searchResults).toEqual(
       expect.arrayContaining([
@@ -203,7 +436,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const auditResponse = await api(app)
       .get(`/parts/${created.id}/audit-logs`)
       .expect(200);
-    const audits = auditResponse.body as AuditLogResponse[];
+    const audits = (auditResponse.body as AuditLogPageResponse).items;
 
     expect(audits[0]).toEqual(
       expect.objectContaining({
@@ -213,6 +446,134 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     );
   });
 
+  it('paginates part search with a cursor and sort order', async () => {
+    const first = await createPart('Paging Part Alpha', 'PRT-964001');
+    const second = await createPart('Paging Part Bravo', 'PRT-964002');
+    const third = await createPart('Paging Part Charlie', 'PRT-964003');
+
+    const firstPageResponse = await api(app)
+      .get('/parts')
+      .query({ q: 'Paging Part', sortBy: 'name', sortOrder: 'desc', limit: 2 })
+      .expect(200);
+    const firstPage = firstPageResponse.body as PartSearchResponse;
+
+    expect(firstPage.total).toBe(3);
+    expect(firstPage.items.map((part) => part.id)).toEqual([
+      third.id,
+      second.id,
+    ]);
+    expect(firstPage.nextCursor).toEqual(expect.any(String));
+
+    const secondPageResponse = await api(app)
+      .get('/parts')
+      .query({
+        q: 'Paging Part',
+        sortBy: 'name',
+        sortOrder: 'desc',
+        limit: 2,
+        cursor: firstPage.nextCursor,
+      })
+      .expect(200);
+    const secondPage = secondPageResponse.body as PartSearchResponse;
+
+    expect(secondPage.items.map((part) => part.id)).toEqual([first.id]);
+    expect(secondPage.nextCursor).toBeNull();
+
+    const mismatchResponse = await api(app)
+      .get('/parts')
+      .query({ q: 'Paging Part', limit: 2, cursor: firstPage.nextCursor })
+      .expect(400);
+    const mismatchError = mismatchResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(mismatchError)).toBe(
+      'cursor does not match the requested sort.',
+    );
+
+    await api(app).get('/parts').query({ sortBy: 'status' }).expect(400);
+    await api(app).get('/parts').query({ limit: 500 }).expect(400);
+  });
+
+  it('ranks full-text part search across descriptions', async () => {
+    const namedResponse = await api(app)
+      .post('/parts')
+      .send({
+        name: 'Lidar Mount Bracket',
+        partNumber: 'PRT-965001',
+        description: 'Anodized aluminium',
+      })
+      .expect(201);
+    const named = namedResponse.body as CreatedPartResponse;
+    const describedResponse = await api(app)
+      .post('/parts')
+      .send({
+        name: 'Sensor Bracket',
+        partNumber: 'PRT-965002',
+        description: 'Holds the lidar on its roof mount',
+      })
+      .expect(201);
+    const described = describedResponse.body as CreatedPartResponse;
+    const unrelated = await createPart('Mount Plate', 'PRT-965003');
+
+    const searchResponse = await api(app)
+      .get('/parts')
+      .query({ mode: 'fulltext', q: 'mount bracket lidar' })
+      .expect(200);
+    const search = searchResponse.body as PartSearchResponse;
+    const ids = search.items.map((item) => item.id);
+
+    expect(search.items[0].id).toBe(named.id);
+    expect(ids).toContain(described.id);
+    expect(ids).not.toContain(unrelated.id);
+    expect(
+      search.items.find((item) => item.id === described.id)?.snippet,
+    ).toContain('<mark>lidar</mark>');
+
+    await api(app)
+      .post('/parts')
+      .send({
+        name: 'Optics Housing',
+        partNumber: 'PRT-965004',
+        description: '<b onmouseover=alert(1)>periscope</b> cover',
+      })
+      .expect(201);
+    const escapedResponse = await api(app)
+      .get('/parts')
+      .query({ mode: 'fulltext', q: 'periscope' })
+      .expect(200);
+    const escapedSnippet = (escapedResponse.body as PartSearchResponse).items[0]
+      .snippet;
+    expect(escapedSnippet).toContain('<mark>periscope</mark>&lt;/b&gt;');
+    expect(escapedSnippet).not.toContain('<b');
+
+    const firstPageResponse = await api(app)
+      .get('/parts')
+      .query({ mode: 'fulltext', q: 'lidar', limit: 1 })
+      .expect(200);
+    const firstPage = firstPageResponse.body as PartSearchResponse;
+    expect(firstPage.nextCursor).toEqual(expect.any(String));
+
+    const secondPageResponse = await api(app)
+      .get('/parts')
+      .query({
+        mode: 'fulltext',
+        q: 'lidar',
+        limit: 1,
+        cursor: firstPage.nextCursor,
+      })
+      .expect(200);
+    const secondPage = secondPageResponse.body as PartSearchResponse;
+    expect(secondPage.items).toHaveLength(1);
+    expect(secondPage.items[0].id).not.toBe(firstPage.items[0].id);
+    expect(secondPage.items[0].rank).toBeLessThanOrEqual(
+      firstPage.items[0].rank ?? 0,
+    );
+
+    await api(app)
+      .get('/parts')
+      .query({ mode: 'fulltext', q: 'lidar', sortBy: 'name' })
+      .expect(400);
+  });
+
   it('auto-generates part number when not provided', async () => {
     const created = await createPart('Unnamed Number Part');
 
@@ -227,7 +588,8 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
       .get('/parts')
       .query({ partNumber: '940001' })
       .expect(200);
-    const byPartNumber = byPartNumberResponse.body as PartSummaryResponse[];
+    const byPartNumber = (byPartNumberResponse.body as PartSearchResponse)
+      .items;
 
     expect(byPartNumber).toEqual(
       expect.arrayContaining([
@@ -248,7 +610,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
       .get('/parts')
       .query({ name: 'sensor' })
       .expect(200);
-    const byName = byNameResponse.body as PartSummaryResponse[];
+    const byName = (byNameResponse.body as PartSearchResponse).items;
 
     expect(byName).toEqual(
       expect.arrayContaining([
@@ -301,6 +663,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const updateResponse = await api(app)
       .put(`/parts/${created.id}`)
       .send({
+        version: 1,
         name: 'Updated Name',
         description: 'Updated description',
         partNumber: 'PRT-940201',
@@ -344,6 +707,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const response = await api(app)
       .put('/parts/PART-9999')
       .send({
+        version: 1,
         name: 'Updated Missing',
       })
       .expect(404);
@@ -358,6 +722,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const blankNameResponse = await api(app)
       .put(`/parts/${created.id}`)
       .send({
+        version: 1,
         name: '   ',
       })
       .expect(400);
@@ -367,6 +732,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const blankPartNumberResponse = await api(app)
       .put(`/parts/${created.id}`)
       .send({
+        version: 1,
         partNumber: '   ',
       })
       .expect(400);
@@ -463,6 +829,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const updateResponse = await api(app)
       .put('/bom/links')
       .send({
+        version: 1,
         parentId: parent.id,
         childId: child.id,
         quantity: 5,
@@ -510,7 +877,8 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const parentAuditResponse = await api(app)
       .get(`/parts/${parent.id}/audit-logs`)
       .expect(200);
-    const parentAudits = parentAuditResponse.body as AuditLogResponse[];
+    const parentAudits = (parentAuditResponse.body as AuditLogPageResponse)
+      .items;
     const actions = parentAudits.map((entry) => entry.action);
 
     expect(actions).toEqual(
@@ -767,19 +1135,22 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
       'Both parentId and childId are required.',
     );
 
-    const missingQuantityResponse = await api(app)
+    const missingFieldsResponse = await api(app)
       .put('/bom/links')
       .send({
         parentId: parent.id,
         childId: child.id,
       })
       .expect(400);
-    const missingQuantityError = missingQuantityResponse.body as ErrorResponse;
-    expect(getErrorMessage(missingQuantityError)).toBe('Quantity is required.');
+    const missingFieldsError = missingFieldsResponse.body as ErrorResponse;
+    expect(getErrorMessage(missingFieldsError)).toBe(
+      'At least one field must be provided for update.',
+    );
 
     const missingLinkResponse = await api(app)
       .put('/bom/links')
       .send({
+        version: 1,
         parentId: parent.id,
         childId: child.id,
         quantity: 2,
@@ -807,6 +1178,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const invalidQuantityResponse = await api(app)
       .put('/bom/links')
       .send({
+        version: 1,
         parentId: parent.id,
         childId: child.id,
         quantity: -2,
@@ -820,6 +1192,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     const missingPartResponse = await api(app)
       .put('/bom/links')
       .send({
+        version: 1,
         parentId: 'PART-7777',
         childId: child.id,
         quantity: 1,
@@ -854,6 +1227,2566 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
     expect(getErrorMessage(error)).toBe("Part 'PART-6666' was not found.");
   });
 
+  it('deletes an unused part and returns 404 afterwards', async () => {
+    const part = await createPart('Unused Part', 'PRT-950001');
+
+    const deleteResponse = await api(app)
+      .delete(`/parts/${part.id}`)
+      .expect(200);
+    const deleted = deleteResponse.body as DeletePartResponse;
+
+    expect(deleted).toEqual(
+      expect.objectContaining({
+        message: 'Part deleted successfully.',
+        partId: part.id,
+        detachedParents: [],
+      }),
+    );
+
+    await api(app).get(`/parts/${part.id}`).expect(404);
+
+    const auditResponse = await api(app)
+      .get(`/parts/${part.id}/audit-logs`)
+      .expect(200);
+    const audits = (auditResponse.body as AuditLogPageResponse).items;
+    expect(audits.map((entry) => entry.action)).toEqual([
+      'PART_DELETED',
+      'PART_CREATED',
+    ]);
+  });
+
+  it('refuses to delete a used part unless force=true and audits the parents', async () => {
+    const parent = await createPart('Where Used Parent', 'PRT-950101');
+    const child = await createPart('Where Used Child', 'PRT-950102');
+
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: parent.id,
+        childId: child.id,
+        quantity: 2,
+      })
+      .expect(201);
+
+    const conflictResponse = await api(app)
+      .delete(`/parts/${child.id}`)
+      .expect(409);
+    const conflict = conflictResponse.body as PartInUseErrorResponse;
+
+    expect(conflict.message).toBe(
+      'Part PRT-950102 is still used by 1 parent assembly(s): PRT-950101. Use force=true to remove its BOM links and delete it.',
+    );
+    expect(conflict.parentParts).toEqual([
+      expect.objectContaining({
+        id: parent.id,
+      }),
+    ]);
+
+    const forcedResponse = await api(app)
+      .delete(`/parts/${child.id}`)
+      .query({ force: 'true' })
+      .expect(200);
+    const forced = forcedResponse.body as DeletePartResponse;
+
+    expect(forced.detachedParents).toEqual([
+      expect.objectContaining({
+        id: parent.id,
+      }),
+    ]);
+
+    const parentDetailsResponse = await api(app)
+      .get(`/parts/${parent.id}`)
+      .expect(200);
+    const parentDetails = parentDetailsResponse.body as PartDetailsResponse;
+
+    expect(parentDetails.childCount).toBe(0);
+
+    const parentAuditResponse = await api(app)
+      .get(`/parts/${parent.id}/audit-logs`)
+      .expect(200);
+    const parentAudits = (parentAuditResponse.body as AuditLogPageResponse)
+      .items;
+
+    expect(parentAudits[0]).toEqual(
+      expect.objectContaining({
+        action: 'BOM_LINK_REMOVED',
+        message:
+          'Removed child PRT-950102 from PRT-950101 because the part was deleted.',
+      }),
+    );
+  });
+
+  it('enforces part lifecycle transitions and audits them', async () => {
+    const part = await createPart('Lifecycle Part', 'PRT-951001');
+
+    const releasedResponse = await api(app)
+      .post(`/parts/${part.id}/status`)
+      .send({ status: 'RELEASED' })
+      .expect(201);
+    const released = releasedResponse.body as PartDetailsResponse;
+
+    expect(released.status).toBe('RELEASED');
+
+    const illegalResponse = await api(app)
+      .post(`/parts/${part.id}/status`)
+      .send({ status: 'DRAFT' })
+      .expect(400);
+    const illegalError = illegalResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(illegalError)).toBe(
+      'Part PRT-951001 cannot transition from RELEASED to DRAFT.',
+    );
+
+    await api(app)
+      .post(`/parts/${part.id}/status`)
+      .send({ status: 3 })
+      .expect(400);
+
+    const releasedUpdateResponse = await api(app)
+      .put(`/parts/${part.id}`)
+      .send({ version: 2, name: 'Lifecycle Part Mk2' })
+      .expect(409);
+    expect(getErrorMessage(releasedUpdateResponse.body as ErrorResponse)).toBe(
+      `Part PRT-951001 revision A is RELEASED. Create a new revision with POST /parts/${part.id}/revisions to change its name or description.`,
+    );
+
+    const auditResponse = await api(app)
+      .get(`/parts/${part.id}/audit-logs`)
+      .expect(200);
+    const audits = (auditResponse.body as AuditLogPageResponse).items;
+
+    expect(audits[0]).toEqual(
+      expect.objectContaining({
+        action: 'PART_STATUS_CHANGED',
+        message: 'Part PRT-951001 revision A moved from DRAFT to RELEASED.',
+      }),
+    );
+
+    const costUpdateResponse = await api(app)
+      .put(`/parts/${part.id}`)
+      .send({ version: 2, unitCost: 12.5, currency: 'EUR' })
+      .expect(200);
+    expect(costUpdateResponse.body).toEqual(
+      expect.objectContaining({ status: 'RELEASED', unitCost: 12.5 }),
+    );
+  });
+
+  it('guards BOM edits on released parents and obsolete children', async () => {
+    const parent = await createPart('Released Parent', 'PRT-951101');
+    const child = await createPart('Active Child', 'PRT-951102');
+    const obsolete = await createPart('Obsolete Child', 'PRT-951103');
+
+    await api(app)
+      .post(`/parts/${obsolete.id}/status`)
+      .send({ status: 'RELEASED' })
+      .expect(201);
+    await api(app)
+      .post(`/parts/${obsolete.id}/status`)
+      .send({ status: 'OBSOLETE' })
+      .expect(201);
+
+    const obsoleteResponse = await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: parent.id,
+        childId: obsolete.id,
+      })
+      .expect(400);
+    const obsoleteError = obsoleteResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(obsoleteError)).toBe(
+      'Obsolete part PRT-951103 cannot be added to a BOM.',
+    );
+
+    await api(app)
+      .post(`/parts/${parent.id}/status`)
+      .send({ status: 'RELEASED' })
+      .expect(201);
+
+    const releasedResponse = await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: parent.id,
+        childId: child.id,
+      })
+      .expect(400);
+    const releasedError = releasedResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(releasedError)).toBe(
+      'Part PRT-951101 is RELEASED. Set allowReleasedEdit to change its BOM.',
+    );
+
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: parent.id,
+        childId: child.id,
+        allowReleasedEdit: true,
+      })
+      .expect(201);
+
+    await api(app).delete(`/bom/links/${parent.id}/${child.id}`).expect(400);
+    await api(app)
+      .delete(`/bom/links/${parent.id}/${child.id}`)
+      .query({ allowReleasedEdit: 'true' })
+      .expect(200);
+
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: parent.id,
+        childId: child.id,
+        allowReleasedEdit: true,
+      })
+      .expect(201);
+
+    await api(app)
+      .delete(`/parts/${child.id}`)
+      .query({ force: 'true' })
+      .expect(400);
+    await api(app)
+      .delete(`/parts/${child.id}`)
+      .query({ force: 'true', allowReleasedEdit: 'true' })
+      .expect(200);
+
+    const spare = await createPart('Spare Child', 'PRT-951104');
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: parent.id,
+        childId: spare.id,
+        allowReleasedEdit: true,
+      })
+      .expect(201);
+
+    const releasedDeleteResponse = await api(app)
+      .delete(`/parts/${parent.id}`)
+      .expect(400);
+    expect(getErrorMessage(releasedDeleteResponse.body as ErrorResponse)).toBe(
+      'Part PRT-951101 is RELEASED. Set allowReleasedEdit to change its BOM.',
+    );
+    await api(app)
+      .delete(`/parts/${parent.id}`)
+      .query({ allowReleasedEdit: 'true' })
+      .expect(200);
+  });
+
+  it('keeps a separate BOM per revision and serves the latest released one', async () => {
+    const assembly = await createPart('Revisioned Assembly', 'PRT-952001');
+    const childA = await createPart('Revision A Child', 'PRT-952002');
+    const childB = await createPart('Revision B Child', 'PRT-952003');
+
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: assembly.id,
+        childId: childA.id,
+        quantity: 1,
+      })
+      .expect(201);
+
+    await api(app).post(`/parts/${assembly.id}/revisions`).expect(400);
+
+    await api(app)
+      .post(`/parts/${assembly.id}/status`)
+      .send({ status: 'RELEASED' })
+      .expect(201);
+
+    const revisionResponse = await api(app)
+      .post(`/parts/${assembly.id}/revisions`)
+      .expect(201);
+    const revisionB = revisionResponse.body as PartRevisionResponse;
+
+    expect(revisionB).toEqual(
+      expect.objectContaining({
+        code: 'B',
+        status: 'DRAFT',
+        childCount: 1,
+        isCurrent: true,
+      }),
+    );
+
+    await api(app).delete(`/bom/links/${assembly.id}/${childA.id}`).expect(200);
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: assembly.id,
+        childId: childB.id,
+        quantity: 3,
+      })
+      .expect(201);
+
+    const currentTreeResponse = await api(app)
+      .get(`/bom/${assembly.id}`)
+      .expect(200);
+    const currentTree = currentTreeResponse.body as BomTreeResponse;
+
+    expect(currentTree.revision).toBe('B');
+    expect(currentTree.tree.children.map((node) => node.part.id)).toEqual([
+      childB.id,
+    ]);
+
+    const releasedTreeResponse = await api(app)
+      .get(`/bom/${assembly.id}`)
+      .query({ revision: 'latest-released' })
+      .expect(200);
+    const releasedTree = releasedTreeResponse.body as BomTreeResponse;
+
+    expect(releasedTree.revision).toBe('A');
+    expect(releasedTree.tree.children.map((node) => node.part.id)).toEqual([
+      childA.id,
+    ]);
+
+    const detailsResponse = await api(app)
+      .get(`/parts/${assembly.id}`)
+      .expect(200);
+    const details = detailsResponse.body as PartDetailsResponse;
+
+    expect(details.revision).toBe('B');
+    expect(details.revisions).toEqual([
+      expect.objectContaining({
+        code: 'A',
+        status: 'RELEASED',
+        childCount: 1,
+        isCurrent: false,
+      }),
+      expect.objectContaining({
+        code: 'B',
+        status: 'DRAFT',
+        childCount: 1,
+        isCurrent: true,
+      }),
+    ]);
+
+    const childADetailsResponse = await api(app)
+      .get(`/parts/${childA.id}`)
+      .expect(200);
+    const childADetails = childADetailsResponse.body as PartDetailsResponse;
+
+    expect(childADetails.parentCount).toBe(0);
+
+    const cycleResponse = await api(app)
+      .post('/bom/links')
+      .send({ parentId: childA.id, childId: assembly.id })
+      .expect(400);
+    expect(getErrorMessage(cycleResponse.body as ErrorResponse)).toBe(
+      'BOM link creation failed because it would introduce a cycle.',
+    );
+
+    const conflictResponse = await api(app)
+      .delete(`/parts/${childA.id}`)
+      .expect(409);
+    const conflict = conflictResponse.body as PartInUseErrorResponse;
+    expect(conflict.usages).toEqual([
+      expect.objectContaining({ revision: 'A', status: 'RELEASED' }),
+    ]);
+  });
+
+  it('explodes a multi-level BOM into rolled-up quantities', async () => {
+    const root = await createPart('Flat Root', 'PRT-953001');
+    const left = await createPart('Flat Left', 'PRT-953002');
+    const right = await createPart('Flat Right', 'PRT-953003');
+    const shared = await createPart('Flat Shared', 'PRT-953004');
+    const screw = await createPart('Flat Screw', 'PRT-953005');
+
+    await linkParts(root.id, left.id, 2);
+    await linkParts(root.id, right.id, 1);
+    await linkParts(left.id, shared.id, 3);
+    await linkParts(right.id, shared.id, 4);
+    await linkParts(shared.id, screw.id, 2);
+    await linkParts(root.id, screw.id, 1);
+
+    const flatResponse = await api(app).get(`/bom/${root.id}/flat`).expect(200);
+    const flat = flatResponse.body as FlatBomResponse;
+
+    expect(flat.itemCount).toBe(4);
+    expect(flat.items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          part: expect.objectContaining({ id: shared.id }) as unknown,
+          totalQuantity: 10,
+          lowestLevel: 2,
+          isLeaf: false,
+        }),
+        expect.objectContaining({
+          part: expect.objectContaining({ id: screw.id }) as unknown,
+          totalQuantity: 21,
+          lowestLevel: 3,
+          isLeaf: true,
+        }),
+      ]),
+    );
+  });
+
+  it('walks where-used links up to the top-level assemblies', async () => {
+    const product = await createPart('Where Used Product', 'PRT-954001');
+    const module = await createPart('Where Used Module', 'PRT-954002');
+    const component = await createPart('Where Used Component', 'PRT-954003');
+
+    await linkParts(product.id, module.id, 2);
+    await linkParts(module.id, component.id, 4);
+
+    const whereUsedResponse = await api(app)
+      .get(`/bom/${component.id}/where-used`)
+      .query({ depth: 'all' })
+      .expect(200);
+    const whereUsed = whereUsedResponse.body as WhereUsedResponse;
+
+    expect(whereUsed.requestedDepth).toBe(5);
+    expect(whereUsed.nodeCount).toBe(3);
+    expect(whereUsed.tree.isTopLevel).toBe(false);
+    expect(whereUsed.tree.parents[0]).toEqual(
+      expect.objectContaining({
+        quantityUsed: 4,
+        isTopLevel: false,
+      }),
+    );
+    expect(whereUsed.tree.parents[0].parents[0]).toEqual(
+      expect.objectContaining({
+        quantityUsed: 2,
+        isTopLevel: true,
+      }),
+    );
+    expect(whereUsed.topLevelParts).toEqual([
+      expect.objectContaining({ id: product.id }),
+    ]);
+
+    const limitedResponse = await api(app)
+      .get(`/bom/${component.id}/where-used`)
+      .query({ depth: 'all', nodeLimit: 2 })
+      .expect(400);
+    const limitedError = limitedResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(limitedError)).toBe(
+      'Where-used expansion exceeded node limit of 2. Reduce depth or load incrementally.',
+    );
+  });
+
+  it('rolls up unit costs through the BOM and flags missing costs', async () => {
+    const root = await createPart('Costed Root', 'PRT-955001');
+    const frame = await createPart('Costed Frame', 'PRT-955002');
+    const bolt = await createPart('Costed Bolt', 'PRT-955003');
+    const label = await createPart('Uncosted Label', 'PRT-955004');
+    const sensor = await createPart('Dollar Sensor', 'PRT-955005');
+
+    await api(app)
+      .put(`/parts/${root.id}`)
+      .send({ version: 1, unitCost: 5, currency: 'eur' })
+      .expect(200);
+    await api(app)
+      .put(`/parts/${frame.id}`)
+      .send({ version: 1, unitCost: 20, currency: 'EUR' })
+      .expect(200);
+    await api(app)
+      .put(`/parts/${bolt.id}`)
+      .send({ version: 1, unitCost: 0.25, currency: 'EUR' })
+      .expect(200);
+    await api(app)
+      .put(`/parts/${sensor.id}`)
+      .send({ version: 1, unitCost: 3, currency: 'USD' })
+      .expect(200);
+
+    await linkParts(root.id, frame.id, 2);
+    await linkParts(frame.id, bolt.id, 8);
+    await linkParts(root.id, label.id, 1);
+    await linkParts(root.id, sensor.id, 1);
+
+    const costResponse = await api(app).get(`/bom/${root.id}/cost`).expect(200);
+    const cost = costResponse.body as BomCostRollupResponse;
+
+    expect(cost.currency).toBe('EUR');
+    expect(cost.totalCost).toBe(49);
+    expect(cost.isComplete).toBe(false);
+    expect(cost.missingCostParts).toEqual([
+      expect.objectContaining({ id: label.id }),
+    ]);
+    expect(cost.currencyMismatchParts).toEqual([
+      expect.objectContaining({ id: sensor.id }),
+    ]);
+    expect(cost.assemblies).toEqual([
+      expect.objectContaining({
+        part: expect.objectContaining({ id: root.id }) as unknown,
+        unitCost: 5,
+        materialCost: 44,
+        totalCost: 49,
+      }),
+      expect.objectContaining({
+        part: expect.objectContaining({ id: frame.id }) as unknown,
+        unitCost: 20,
+        materialCost: 2,
+        totalCost: 22,
+      }),
+    ]);
+
+    const invalidCostResponse = await api(app)
+      .put(`/parts/${label.id}`)
+      .send({ version: 1, unitCost: -1 })
+      .expect(400);
+    const invalidCostError = invalidCostResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(invalidCostError)).toBe(
+      'Unit cost must be a number >= 0.',
+    );
+
+    const currencyTypeResponse = await api(app)
+      .put(`/parts/${label.id}`)
+      .send({ version: 1, currency: 978 })
+      .expect(400);
+    expect(getErrorMessage(currencyTypeResponse.body as ErrorResponse)).toBe(
+      'currency must be a string.',
+    );
+  });
+
+  it('converts units of measure and accepts decimal quantities', async () => {
+    const root = await createPart('Harness Assembly', 'PRT-956001');
+    const cable = await createPart('Harness Cable', 'PRT-956002');
+    const connector = await createPart('Harness Connector', 'PRT-956003');
+
+    await api(app)
+      .put(`/parts/${cable.id}`)
+      .send({ version: 1, unit: 'm', unitCost: 2 })
+      .expect(200);
+    await api(app)
+      .put(`/parts/${root.id}`)
+      .send({ version: 1, unitCost: 1 })
+      .expect(200);
+    await api(app)
+      .put(`/parts/${connector.id}`)
+      .send({ version: 1, unitCost: 0.5 })
+      .expect(200);
+
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: root.id,
+        childId: cable.id,
+        quantity: 1250,
+        unit: 'mm',
+      })
+      .expect(201);
+    await linkParts(root.id, connector.id, 2);
+
+    const flatResponse = await api(app).get(`/bom/${root.id}/flat`).expect(200);
+    const flat = flatResponse.body as FlatBomResponse;
+
+    expect(flat.items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          part: expect.objectContaining({ id: cable.id }) as unknown,
+          totalQuantity: 1.25,
+          unit: 'M',
+        }),
+      ]),
+    );
+
+    const costResponse = await api(app).get(`/bom/${root.id}/cost`).expect(200);
+    const cost = costResponse.body as BomCostRollupResponse;
+
+    expect(cost.totalCost).toBe(4.5);
+
+    await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: root.id,
+        childId: cable.id,
+        quantity: 0.5,
+        unit: 'm',
+      })
+      .expect(200);
+
+    const mismatchResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 2,
+        parentId: root.id,
+        childId: cable.id,
+        quantity: 1,
+        unit: 'kg',
+      })
+      .expect(400);
+    const mismatchError = mismatchResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(mismatchError)).toBe(
+      'Unit KG does not match base unit M of part PRT-956002.',
+    );
+
+    const fractionResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: root.id,
+        childId: connector.id,
+        quantity: 1.5,
+      })
+      .expect(400);
+    const fractionError = fractionResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(fractionError)).toBe(
+      'BOM quantity must be a positive integer.',
+    );
+
+    const precisionResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 2,
+        parentId: root.id,
+        childId: cable.id,
+        quantity: 0.0000001,
+      })
+      .expect(400);
+    expect(getErrorMessage(precisionResponse.body as ErrorResponse)).toBe(
+      'BOM quantity can have at most 6 decimal places.',
+    );
+
+    const overflowResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: root.id,
+        childId: connector.id,
+        quantity: 1e13,
+      })
+      .expect(400);
+    expect(getErrorMessage(overflowResponse.body as ErrorResponse)).toBe(
+      'BOM quantity must be at most 999999999999.999999.',
+    );
+
+    const unitChangeResponse = await api(app)
+      .put(`/parts/${cable.id}`)
+      .send({ version: 2, unit: 'g' })
+      .expect(400);
+    const unitChangeError = unitChangeResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(unitChangeError)).toBe(
+      'Base unit of part PRT-956002 cannot change to G because BOM links use M.',
+    );
+
+    const unitTypeResponse = await api(app)
+      .post('/bom/links')
+      .send({ parentId: root.id, childId: connector.id, unit: 7 })
+      .expect(400);
+    expect(getErrorMessage(unitTypeResponse.body as ErrorResponse)).toBe(
+      'unit must be a string.',
+    );
+
+    const unitOnlyResponse = await api(app)
+      .put('/bom/links')
+      .send({ version: 2, parentId: root.id, childId: cable.id, unit: 'cm' })
+      .expect(200);
+    expect(unitOnlyResponse.body).toEqual(
+      expect.objectContaining({ quantity: 0.5, unit: 'CM' }),
+    );
+  });
+
+  it('imports parts and BOM links from CSV with a dry-run report', async () => {
+    const existing = await createPart('Import Existing Frame', 'PRT-957001');
+
+    const invalidPartsCsv = [
+      'partNumber,name,unit,unitCost',
+      'PRT-957001,Duplicate Frame,,',
+      'PRT-957002,Import Cable,m,1.5',
+      'PRT-957003,,,',
+    ].join('\n');
+    const invalidLinksCsv = [
+      'parentPartNumber,childPartNumber,quantity,unit',
+      'PRT-957001,PRT-957002,0.5,m',
+      'PRT-957002,PRT-957002,1,',
+      'PRT-957001,PRT-957999,2,',
+      'PRT-957002,PRT-957001,1,',
+      'PRT-957001,PRT-957002,-1,m',
+    ].join('\n');
+
+    const dryRunResponse = await api(app)
+      .post('/imports/bom')
+      .send({
+        partsCsv: invalidPartsCsv,
+        linksCsv: invalidLinksCsv,
+        dryRun: true,
+      })
+      .expect(201);
+    const dryRun = dryRunResponse.body as BomImportResponse;
+
+    expect(dryRun.isValid).toBe(false);
+    expect(dryRun.partCount).toBe(1);
+    expect(dryRun.linkCount).toBe(1);
+    expect(dryRun.errors).toEqual([
+      {
+        file: 'parts',
+        row: 2,
+        message: "Part number 'PRT-957001' already exists.",
+      },
+      {
+        file: 'parts',
+        row: 4,
+        message: 'Part name is required.',
+      },
+      {
+        file: 'links',
+        row: 3,
+        message: 'A part cannot be linked to itself in BOM.',
+      },
+      {
+        file: 'links',
+        row: 4,
+        message:
+          "Part number 'PRT-957999' was not found in the import or the catalog.",
+      },
+      {
+        file: 'links',
+        row: 5,
+        message: 'BOM link creation failed because it would introduce a cycle.',
+      },
+      {
+        file: 'links',
+        row: 6,
+        message: 'BOM quantity must be a positive number.',
+      },
+    ]);
+
+    const rejectedResponse = await api(app)
+      .post('/imports/bom')
+      .send({
+        partsCsv: invalidPartsCsv,
+        linksCsv: invalidLinksCsv,
+      })
+      .expect(400);
+    const rejected = rejectedResponse.body as BomImportErrorResponse;
+
+    expect(rejected.message).toBe(
+      'Import has 6 invalid row(s). Nothing was imported.',
+    );
+    expect(rejected.errors).toHaveLength(6);
+
+    await api(app)
+      .get('/parts')
+      .query({ partNumber: 'PRT-957002' })
+      .expect(200)
+      .expect((response) => {
+        expect((response.body as PartSearchResponse).total).toBe(0);
+      });
+
+    const committedResponse = await api(app)
+      .post('/imports/bom')
+      .send({
+        partsCsv: [
+          'partNumber,name,description',
+          'PRT-957002,Import Cable,"Shielded, 4 core"',
+          'PRT-957003,Import Bracket,',
+        ].join('\n'),
+        linksCsv: [
+          'parentPartNumber,childPartNumber,quantity',
+          'PRT-957001,PRT-957003,2',
+          'PRT-957003,PRT-957002,1',
+        ].join('\n'),
+      })
+      .expect(201);
+    const committed = committedResponse.body as BomImportResponse;
+
+    expect(committed.isValid).toBe(true);
+    expect(committed.parts).toEqual([
+      expect.objectContaining({ partNumber: 'PRT-957002' }),
+      expect.objectContaining({ partNumber: 'PRT-957003' }),
+    ]);
+    expect(committed.links).toHaveLength(2);
+
+    const flatResponse = await api(app)
+      .get(`/bom/${existing.id}/flat`)
+      .expect(200);
+    const flat = flatResponse.body as FlatBomResponse;
+
+    expect(flat.itemCount).toBe(2);
+
+    const lineNumberResponse = await api(app)
+      .post('/imports/bom')
+      .send({
+        partsCsv: [
+          'partNumber,name,description',
+          '',
+          'PRT-957004,Import Gasket,"Two',
+          'line note"',
+          '',
+          'PRT-957005,,',
+        ].join('\n'),
+        dryRun: true,
+      })
+      .expect(201);
+    expect((lineNumberResponse.body as BomImportResponse).errors).toEqual([
+      {
+        file: 'parts',
+        row: 6,
+        message: 'Part name is required.',
+      },
+    ]);
+  });
+
+  it('exports an indented BOM as CSV', async () => {
+    const root = await createPart('Export Root', 'PRT-958001');
+    const frame = await createPart('Export Frame, Welded', 'PRT-958002');
+    const bolt = await createPart('Export Bolt', 'PRT-958003');
+
+    await linkParts(root.id, frame.id, 2);
+    await linkParts(frame.id, bolt.id, 4);
+    await linkParts(root.id, bolt.id, 1);
+
+    const exportResponse = await api(app)
+      .get(`/bom/${root.id}/export`)
+      .expect(200)
+      .expect('Content-Type', /text\/csv/)
+      .expect(
+        'Content-Disposition',
+        'attachment; filename="PRT-958001-rev-A-bom.csv"',
+      );
+
+    expect(exportResponse.text.split('\r\n')).toEqual([
+      'Level,Find Path,Part Number,Name,Quantity Per Parent,Unit,Extended Quantity,Base Unit',
+      '0,,PRT-958001,Export Root,,,1,EA',
+      '.1,10,PRT-958002,"Export Frame, Welded",2,EA,2,EA',
+      '..2,10.10,PRT-958003,Export Bolt,4,EA,8,EA',
+      '.1,20,PRT-958003,Export Bolt,1,EA,1,EA',
+      '',
+    ]);
+  });
+
+  it('refuses to export an indented BOM above the row limit', async () => {
+    const levels = [await createPart('Export Level 0', 'PRT-958100')];
+
+    for (let level = 1; level <= 11; level += 1) {
+      const left = await createPart(
+        `Export Left ${level}`,
+        `PRT-9581${String(level).padStart(2, '0')}`,
+      );
+      const right = await createPart(
+        `Export Right ${level}`,
+        `PRT-9582${String(level).padStart(2, '0')}`,
+      );
+      const next = await createPart(
+        `Export Level ${level}`,
+        `PRT-9583${String(level).padStart(2, '0')}`,
+      );
+      const previous = levels[levels.length - 1];
+
+      await linkParts(previous.id, left.id, 1);
+      await linkParts(previous.id, right.id, 1);
+      await linkParts(left.id, next.id, 1);
+      await linkParts(right.id, next.id, 1);
+      levels.push(next);
+    }
+
+    const exportResponse = await api(app)
+      .get(`/bom/${levels[0].id}/export`)
+      .expect(400);
+    expect(getErrorMessage(exportResponse.body as ErrorResponse)).toBe(
+      'Indented BOM would have 8189 rows. Maximum supported row count is 5000.',
+    );
+  });
+
+  it('compares two assemblies level by level', async () => {
+    const base = await createPart('Compare Base', 'PRT-959001');
+    const variant = await createPart('Compare Variant', 'PRT-959002');
+    const frame = await createPart('Compare Frame', 'PRT-959003');
+    const motor = await createPart('Compare Motor', 'PRT-959004');
+    const bigMotor = await createPart('Compare Big Motor', 'PRT-959005');
+    const winding = await createPart('Compare Winding', 'PRT-959006');
+
+    await linkParts(base.id, frame.id, 1);
+    await linkParts(base.id, motor.id, 2);
+    await linkParts(variant.id, frame.id, 2);
+    await linkParts(variant.id, bigMotor.id, 1);
+    await linkParts(bigMotor.id, winding.id, 3);
+
+    const compareResponse = await api(app)
+      .get('/bom/compare')
+      .query({ left: base.id, right: variant.id })
+      .expect(200);
+    const comparison = compareResponse.body as BomCompareResponse;
+
+    expect(comparison.isIdentical).toBe(false);
+    expect(comparison.levels).toEqual([
+      {
+        level: 1,
+        added: [
+          expect.objectContaining({
+            part: expect.objectContaining({ id: bigMotor.id }) as unknown,
+            rightQuantity: 1,
+          }),
+        ],
+        removed: [
+          expect.objectContaining({
+            part: expect.objectContaining({ id: motor.id }) as unknown,
+            leftQuantity: 2,
+          }),
+        ],
+        quantityChanged: [
+          expect.objectContaining({
+            part: expect.objectContaining({ id: frame.id }) as unknown,
+            leftQuantity: 1,
+            rightQuantity: 2,
+          }),
+        ],
+      },
+      {
+        level: 2,
+        added: [
+          expect.objectContaining({
+            part: expect.objectContaining({ id: winding.id }) as unknown,
+            path: ['PRT-959005'],
+          }),
+        ],
+        removed: [],
+        quantityChanged: [],
+      },
+    ]);
+
+    const shallowResponse = await api(app)
+      .get('/bom/compare')
+      .query({ left: base.id, right: variant.id, depth: 1 })
+      .expect(200);
+    const shallow = shallowResponse.body as BomCompareResponse;
+
+    expect(shallow.levels).toHaveLength(1);
+
+    const missingResponse = await api(app)
+      .get('/bom/compare')
+      .query({ left: base.id })
+      .expect(400);
+    const missingError = missingResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(missingError)).toBe(
+      'Both left and right are required.',
+    );
+  });
+
+  it('rebuilds a part and its BOM as of an earlier timestamp', async () => {
+    const root = await createPart('History Root', 'PRT-960001');
+    const motor = await createPart('History Motor', 'PRT-960002');
+    const sensor = await createPart('History Sensor', 'PRT-960003');
+    const cable = await createPart('History Cable', 'PRT-960004');
+
+    await linkParts(root.id, motor.id, 2);
+    await linkParts(root.id, sensor.id, 1);
+
+    await waitForNextTimestamp();
+    const asOf = new Date().toISOString();
+    await waitForNextTimestamp();
+
+    await api(app)
+      .put(`/parts/${root.id}`)
+      .send({
+        version: 1,
+        name: 'History Root Mk2',
+        description: 'Second edition',
+      })
+      .expect(200);
+    await api(app)
+      .put('/bom/links')
+      .send({ version: 1, parentId: root.id, childId: motor.id, quantity: 4 })
+      .expect(200);
+    await api(app).delete(`/bom/links/${root.id}/${sensor.id}`).expect(200);
+    await linkParts(root.id, cable.id, 3);
+    await api(app)
+      .post(`/parts/${root.id}/status`)
+      .send({ status: 'RELEASED' })
+      .expect(201);
+
+    const detailsResponse = await api(app)
+      .get(`/parts/${root.id}`)
+      .query({ asOf })
+      .expect(200);
+    const details = detailsResponse.body as PartDetailsResponse;
+
+    expect(details).toEqual(
+      expect.objectContaining({
+        name: 'History Root',
+        description: '',
+        status: 'DRAFT',
+        asOf,
+        isHistoryComplete: true,
+      }),
+    );
+    expect(details.childParts).toEqual([
+      expect.objectContaining({ id: motor.id, quantity: 2 }),
+      expect.objectContaining({ id: sensor.id, quantity: 1 }),
+    ]);
+
+    const sensorResponse = await api(app)
+      .get(`/parts/${sensor.id}`)
+      .query({ asOf })
+      .expect(200);
+    const sensorDetails = sensorResponse.body as PartDetailsResponse;
+
+    expect(sensorDetails.parentParts).toEqual([
+      expect.objectContaining({ id: root.id, name: 'History Root' }),
+    ]);
+
+    const treeResponse = await api(app)
+      .get(`/bom/${root.id}`)
+      .query({ asOf })
+      .expect(200);
+    const tree = treeResponse.body as BomTreeResponse;
+
+    expect(tree.tree.part.name).toBe('History Root');
+    expect(
+      tree.tree.children.map((child) => [
+        child.part.id,
+        child.quantityFromParent,
+      ]),
+    ).toEqual([
+      [motor.id, 2],
+      [sensor.id, 1],
+    ]);
+
+    const currentTreeResponse = await api(app)
+      .get(`/bom/${root.id}`)
+      .expect(200);
+    const currentTree = currentTreeResponse.body as BomTreeResponse;
+
+    expect(currentTree.asOf).toBeUndefined();
+    expect(currentTree.tree.children.map((child) => child.part.id)).toEqual([
+      motor.id,
+      cable.id,
+    ]);
+
+    const beforeCreationResponse = await api(app)
+      .get(`/parts/${cable.id}`)
+      .query({ asOf: '2000-01-01T00:00:00Z' })
+      .expect(404);
+    const beforeCreationError = beforeCreationResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(beforeCreationError)).toBe(
+      'Part PRT-960004 did not exist at 2000-01-01T00:00:00.000Z.',
+    );
+
+    await api(app)
+      .get(`/bom/${root.id}`)
+      .query({ asOf: 'yesterday' })
+      .expect(400);
+  });
+
+  it('schedules BOM link changes with effectivity dates', async () => {
+    const root = await createPart('Effectivity Root', 'PRT-961001');
+    const oldMotor = await createPart('Effectivity Old Motor', 'PRT-961002');
+    const newMotor = await createPart('Effectivity New Motor', 'PRT-961003');
+    const cutover = '2099-01-01T00:00:00.000Z';
+
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: root.id,
+        childId: oldMotor.id,
+        quantity: 1,
+        effectiveTo: cutover,
+      })
+      .expect(201);
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: root.id,
+        childId: newMotor.id,
+        quantity: 1,
+        effectiveFrom: cutover,
+      })
+      .expect(201);
+
+    const currentTreeResponse = await api(app)
+      .get(`/bom/${root.id}`)
+      .expect(200);
+    const currentTree = currentTreeResponse.body as BomTreeResponse;
+
+    expect(currentTree.tree.children.map((child) => child.part.id)).toEqual([
+      oldMotor.id,
+    ]);
+
+    const futureTreeResponse = await api(app)
+      .get(`/bom/${root.id}`)
+      .query({ effectiveAt: '2099-06-01T00:00:00Z' })
+      .expect(200);
+    const futureTree = futureTreeResponse.body as BomTreeResponse;
+
+    expect(futureTree.tree.children.map((child) => child.part.id)).toEqual([
+      newMotor.id,
+    ]);
+
+    const overlapResponse = await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: root.id,
+        childId: newMotor.id,
+        quantity: 2,
+        effectiveFrom: '2099-03-01T00:00:00Z',
+      })
+      .expect(400);
+    const overlapError = overlapResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(overlapError)).toBe(
+      'BOM link between PRT-961001 and PRT-961003 overlaps an existing effectivity period.',
+    );
+
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: root.id,
+        childId: oldMotor.id,
+        quantity: 2,
+        effectiveFrom: '2100-01-01T00:00:00Z',
+      })
+      .expect(201);
+
+    const ambiguousResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: root.id,
+        childId: oldMotor.id,
+        quantity: 3,
+      })
+      .expect(400);
+    const ambiguousError = ambiguousResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(ambiguousError)).toBe(
+      'BOM link between PRT-961001 and PRT-961002 has 2 effectivity periods. Specify linkId.',
+    );
+
+    const detailsResponse = await api(app).get(`/parts/${root.id}`).expect(200);
+    const details = detailsResponse.body as PartDetailsResponse;
+    const laterLink = details.childParts.find(
+      (child) => child.id === oldMotor.id && child.effectiveFrom,
+    );
+
+    expect(details.childParts).toHaveLength(3);
+    expect(laterLink).toBeDefined();
+
+    await api(app)
+      .delete(`/bom/links/${root.id}/${oldMotor.id}`)
+      .query({ linkId: laterLink?.linkId })
+      .expect(200);
+
+    const reverseRangeResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: root.id,
+        childId: oldMotor.id,
+        effectiveFrom: '2099-02-01T00:00:00Z',
+      })
+      .expect(400);
+    const reverseRangeError = reverseRangeResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(reverseRangeError)).toBe(
+      'effectiveTo must be after effectiveFrom.',
+    );
+  });
+
+  it('orders BOM lines by find number and checks reference designators', async () => {
+    const board = await createPart('Designator Board', 'PRT-962001');
+    const resistor = await createPart('Designator Resistor', 'PRT-962002');
+    const capacitor = await createPart('Designator Capacitor', 'PRT-962003');
+    const connector = await createPart('Designator Connector', 'PRT-962004');
+
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: board.id,
+        childId: resistor.id,
+        quantity: 2,
+        referenceDesignators: ['r1', 'R2'],
+      })
+      .expect(201);
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: board.id,
+        childId: capacitor.id,
+        quantity: 1,
+        findNumber: 5,
+        referenceDesignators: ['C1'],
+      })
+      .expect(201);
+    await linkParts(board.id, connector.id, 1);
+
+    const detailsResponse = await api(app)
+      .get(`/parts/${board.id}`)
+      .expect(200);
+    const details = detailsResponse.body as PartDetailsResponse;
+
+    expect(
+      details.childParts.map((child) => [
+        child.findNumber,
+        child.partNumber,
+        child.referenceDesignators,
+      ]),
+    ).toEqual([
+      [5, 'PRT-962003', ['C1']],
+      [10, 'PRT-962002', ['R1', 'R2']],
+      [20, 'PRT-962004', []],
+    ]);
+
+    const treeResponse = await api(app).get(`/bom/${board.id}`).expect(200);
+    const tree = treeResponse.body as BomTreeResponse;
+
+    expect(tree.tree.children[0]).toEqual(
+      expect.objectContaining({
+        findNumber: 5,
+        referenceDesignators: ['C1'],
+      }),
+    );
+
+    const countResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: board.id,
+        childId: resistor.id,
+        quantity: 3,
+      })
+      .expect(400);
+    const countError = countResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(countError)).toBe(
+      'BOM line has 2 reference designator(s) but quantity 3.',
+    );
+
+    await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: board.id,
+        childId: resistor.id,
+        quantity: 3,
+        referenceDesignators: ['R1', 'R2', 'R3'],
+      })
+      .expect(200);
+
+    const duplicateResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: board.id,
+        childId: connector.id,
+        findNumber: 5,
+      })
+      .expect(400);
+    const duplicateError = duplicateResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(duplicateError)).toBe(
+      'Find number 5 is already used by PRT-962003 in PRT-962001.',
+    );
+
+    const takenResponse = await api(app)
+      .put('/bom/links')
+      .send({
+        version: 1,
+        parentId: board.id,
+        childId: connector.id,
+        referenceDesignators: ['R3'],
+      })
+      .expect(400);
+    const takenError = takenResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(takenError)).toBe(
+      'Reference designator R3 is already used by PRT-962002 in PRT-962001.',
+    );
+  });
+
+  it('lists ranked global and line-specific alternates', async () => {
+    const drive = await createPart('Alternate Drive', 'PRT-963001');
+    const motor = await createPart('Alternate Motor', 'PRT-963002');
+    const globalMotor = await createPart(
+      'Alternate Global Motor',
+      'PRT-963003',
+    );
+    const lineMotor = await createPart('Alternate Line Motor', 'PRT-963004');
+
+    await linkParts(drive.id, motor.id, 1);
+
+    await api(app)
+      .post(`/parts/${motor.id}/alternates`)
+      .send({ alternatePartId: globalMotor.id })
+      .expect(201);
+    const lineAlternateResponse = await api(app)
+      .post('/bom/links/alternates')
+      .send({
+        parentId: drive.id,
+        childId: motor.id,
+        alternatePartId: lineMotor.id,
+      })
+      .expect(201);
+    const lineAlternate = lineAlternateResponse.body as BomAlternateResponse;
+
+    expect(lineAlternate).toEqual(
+      expect.objectContaining({ rank: 1, scope: 'LINE' }),
+    );
+
+    const driveResponse = await api(app).get(`/parts/${drive.id}`).expect(200);
+    const driveDetails = driveResponse.body as PartDetailsResponse;
+
+    expect(
+      driveDetails.childParts[0].alternates.map((alternate) => [
+        alternate.part.id,
+        alternate.scope,
+        alternate.rank,
+      ]),
+    ).toEqual([
+      [lineMotor.id, 'LINE', 1],
+      [globalMotor.id, 'GLOBAL', 1],
+    ]);
+
+    const motorResponse = await api(app).get(`/parts/${motor.id}`).expect(200);
+    const motorDetails = motorResponse.body as PartDetailsResponse;
+
+    expect(motorDetails.alternates).toEqual([
+      expect.objectContaining({
+        part: expect.objectContaining({ id: globalMotor.id }) as unknown,
+        scope: 'GLOBAL',
+      }),
+    ]);
+
+    const treeResponse = await api(app).get(`/bom/${drive.id}`).expect(200);
+    const tree = treeResponse.body as BomTreeResponse;
+
+    expect(tree.tree.children[0].alternates).toHaveLength(2);
+
+    await api(app)
+      .post(`/parts/${motor.id}/alternates`)
+      .send({ alternatePartId: globalMotor.id })
+      .expect(409);
+
+    const cycleResponse = await api(app)
+      .post('/bom/links/alternates')
+      .send({
+        parentId: drive.id,
+        childId: motor.id,
+        alternatePartId: drive.id,
+      })
+      .expect(400);
+    const cycleError = cycleResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(cycleError)).toBe(
+      'BOM alternate creation failed because it would introduce a cycle.',
+    );
+
+    await api(app)
+      .delete(`/bom/links/${drive.id}/${motor.id}/alternates/${lineMotor.id}`)
+      .expect(200);
+
+    const afterRemovalResponse = await api(app)
+      .get(`/parts/${drive.id}`)
+      .expect(200);
+    const afterRemoval = afterRemovalResponse.body as PartDetailsResponse;
+
+    expect(afterRemoval.childParts[0].alternates).toEqual([
+      expect.objectContaining({ scope: 'GLOBAL' }),
+    ]);
+
+    const housing = await createPart('Alternate Housing', 'PRT-963005');
+    await linkParts(globalMotor.id, housing.id, 1);
+
+    const globalCycleResponse = await api(app)
+      .post('/bom/links')
+      .send({ parentId: housing.id, childId: motor.id })
+      .expect(400);
+    expect(getErrorMessage(globalCycleResponse.body as ErrorResponse)).toBe(
+      'BOM link creation failed because it would introduce a cycle.',
+    );
+
+    const alternateConflictResponse = await api(app)
+      .delete(`/parts/${globalMotor.id}`)
+      .expect(409);
+    expect(
+      getErrorMessage(alternateConflictResponse.body as ErrorResponse),
+    ).toBe(
+      'Part PRT-963003 is an alternate for 1 part(s): PRT-963002. Use force=true to remove these alternates and delete it.',
+    );
+
+    await api(app)
+      .delete(`/parts/${globalMotor.id}`)
+      .query({ force: 'true' })
+      .expect(200)
+      .expect((response) => {
+        expect(response.body).toEqual(
+          expect.objectContaining({ removedAlternateCount: 1 }),
+        );
+      });
+
+    const motorAuditResponse = await api(app)
+      .get(`/parts/${motor.id}/audit-logs`)
+      .expect(200);
+    expect((motorAuditResponse.body as AuditLogPageResponse).items[0]).toEqual(
+      expect.objectContaining({
+        action: 'BOM_ALTERNATE_REMOVED',
+        message:
+          'Removed PRT-963003 as alternate for PRT-963002 because the part was deleted.',
+      }),
+    );
+
+    await api(app)
+      .post('/bom/links/alternates')
+      .send({
+        parentId: drive.id,
+        childId: motor.id,
+        alternatePartId: lineMotor.id,
+      })
+      .expect(201);
+    await api(app).delete(`/bom/links/${drive.id}/${motor.id}`).expect(200);
+
+    const lineAuditResponse = await api(app)
+      .get(`/parts/${drive.id}/audit-logs`)
+      .expect(200);
+    expect((lineAuditResponse.body as AuditLogPageResponse).items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          action: 'BOM_ALTERNATE_REMOVED',
+          message:
+            'Removed PRT-963004 as alternate for child PRT-963002 in PRT-963001 because the BOM line was removed.',
+        }),
+      ]),
+    );
+  });
+
+  it('validates, filters and audits typed part attributes', async () => {
+    await api(app)
+      .post('/attributes')
+      .send({ key: 'voltage', label: 'Voltage', type: 'number', unit: 'V' })
+      .expect(201);
+    await api(app)
+      .post('/attributes')
+      .send({ key: 'finish', type: 'ENUM', options: ['Matte', 'Gloss'] })
+      .expect(201);
+    await api(app)
+      .post('/attributes')
+      .send({ key: 'rohs', type: 'BOOLEAN' })
+      .expect(201);
+
+    const badKeyResponse = await api(app)
+      .post('/attributes')
+      .send({ key: 'Bad Key', type: 'STRING' })
+      .expect(400);
+    const badKeyError = badKeyResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(badKeyError)).toContain(
+      'Attribute key must start with a lowercase letter',
+    );
+
+    const sensorResponse = await api(app)
+      .post('/parts')
+      .send({
+        name: 'Attribute Sensor',
+        partNumber: 'PRT-966001',
+        attributes: { voltage: 12, finish: 'matte', rohs: true },
+      })
+      .expect(201);
+    const sensor = sensorResponse.body as CreatedPartResponse &
+      Pick<PartDetailsResponse, 'attributes'>;
+
+    expect(sensor.attributes).toEqual({
+      voltage: 12,
+      finish: 'Matte',
+      rohs: true,
+    });
+
+    await api(app)
+      .post('/parts')
+      .send({
+        name: 'Attribute Relay',
+        partNumber: 'PRT-966002',
+        attributes: { voltage: 24, finish: 'Gloss' },
+      })
+      .expect(201);
+
+    const typeResponse = await api(app)
+      .post('/parts')
+      .send({ name: 'Attribute Bad', attributes: { voltage: '12' } })
+      .expect(400);
+    const typeError = typeResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(typeError)).toBe(
+      "Attribute 'voltage' must be a number.",
+    );
+
+    const unknownResponse = await api(app)
+      .post('/parts')
+      .send({ name: 'Attribute Bad', attributes: { color: 'red' } })
+      .expect(400);
+    const unknownError = unknownResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(unknownError)).toBe("Unknown attribute 'color'.");
+
+    const filterResponse = await api(app)
+      .get('/parts')
+      .query('attribute=voltage:12&attribute=finish:matte')
+      .expect(200);
+    const filtered = filterResponse.body as PartSearchResponse;
+
+    expect(filtered.items.map((item) => item.partNumber)).toEqual([
+      'PRT-966001',
+    ]);
+
+    await api(app)
+      .put(`/parts/${sensor.id}`)
+      .send({ version: 1, attributes: { voltage: 48, rohs: null } })
+      .expect(200);
+
+    const detailsResponse = await api(app)
+      .get(`/parts/${sensor.id}`)
+      .expect(200);
+    const details = detailsResponse.body as PartDetailsResponse;
+
+    expect(details.attributes).toEqual({ voltage: 48, finish: 'Matte' });
+
+    const auditResponse = await api(app)
+      .get(`/parts/${sensor.id}/audit-logs`)
+      .expect(200);
+    const audits = (auditResponse.body as AuditLogPageResponse).items;
+
+    expect(audits[0].changes).toEqual({
+      'attributes.voltage': { from: 12, to: 48 },
+      'attributes.rohs': { from: true, to: null },
+    });
+
+    await api(app)
+      .put('/attributes/finish')
+      .send({ options: ['Gloss'] })
+      .expect(409);
+    await api(app).delete('/attributes/voltage').expect(409);
+
+    const unitChangeResponse = await api(app)
+      .put('/attributes/voltage')
+      .send({ unit: 'mV' })
+      .expect(409);
+    expect(getErrorMessage(unitChangeResponse.body as ErrorResponse)).toMatch(
+      /^Unit of attribute 'voltage' cannot change because \d+ part\(s\) have a value for it\.$/,
+    );
+
+    const requireResponse = await api(app)
+      .put('/attributes/voltage')
+      .send({ isRequired: true })
+      .expect(409);
+    expect(getErrorMessage(requireResponse.body as ErrorResponse)).toMatch(
+      /^Attribute 'voltage' cannot become required because \d+ part\(s\) have no value for it\.$/,
+    );
+
+    await api(app)
+      .post('/attributes')
+      .send({ key: 'supplier', type: 'STRING', isRequired: true })
+      .expect(201);
+
+    const requiredResponse = await api(app)
+      .post('/parts')
+      .send({ name: 'Attribute Missing Supplier' })
+      .expect(400);
+    const requiredError = requiredResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(requiredError)).toBe(
+      "Attribute 'supplier' is required.",
+    );
+  });
+
+  it('classifies parts in a category tree with category rules', async () => {
+    await api(app)
+      .post('/attributes')
+      .send({ key: 'thread', type: 'STRING' })
+      .expect(201);
+
+    const fastenersResponse = await api(app)
+      .post('/categories')
+      .send({ name: 'Fasteners' })
+      .expect(201);
+    const fasteners = fastenersResponse.body as CategoryResponse;
+    const screwsResponse = await api(app)
+      .post('/categories')
+      .send({
+        name: 'Screws',
+        parentId: fasteners.id,
+        partNumberPrefix: 'scr-',
+        requiredAttributes: ['thread'],
+      })
+      .expect(201);
+    const screws = screwsResponse.body as CategoryResponse;
+    const m3Response = await api(app)
+      .post('/categories')
+      .send({ name: 'M3', parentId: screws.id })
+      .expect(201);
+    const m3 = m3Response.body as CategoryResponse;
+
+    expect(screws).toEqual(
+      expect.objectContaining({
+        partNumberPrefix: 'SCR-',
+        path: ['Fasteners', 'Screws'],
+      }),
+    );
+
+    await api(app)
+      .post('/categories')
+      .send({ name: 'screws', parentId: fasteners.id })
+      .expect(409);
+
+    const prefixResponse = await api(app)
+      .post('/parts')
+      .send({
+        name: 'Category Screw',
+        partNumber: 'PRT-967001',
+        categoryId: m3.id,
+        attributes: { thread: 'M3x0.5' },
+      })
+      .expect(400);
+    const prefixError = prefixResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(prefixError)).toBe(
+      "Category Screws requires part numbers starting with 'SCR-'.",
+    );
+
+    const attributeResponse = await api(app)
+      .post('/parts')
+      .send({
+        name: 'Category Screw',
+        partNumber: 'SCR-967001',
+        categoryId: m3.id,
+      })
+      .expect(400);
+    const attributeError = attributeResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(attributeError)).toBe(
+      "Category Screws requires attribute 'thread'.",
+    );
+
+    const screwResponse = await api(app)
+      .post('/parts')
+      .send({
+        name: 'Category Screw',
+        partNumber: 'SCR-967001',
+        categoryId: m3.id,
+        attributes: { thread: 'M3x0.5' },
+      })
+      .expect(201);
+    const screw = screwResponse.body as CreatedPartResponse;
+
+    await api(app)
+      .post('/parts')
+      .send({
+        name: 'Category Washer',
+        partNumber: 'PRT-967002',
+        categoryId: fasteners.id,
+      })
+      .expect(201);
+    await createPart('Category Unclassified', 'PRT-967003');
+
+    const fastenerPartsResponse = await api(app)
+      .get('/parts')
+      .query({ categoryId: fasteners.id })
+      .expect(200);
+    const fastenerParts = fastenerPartsResponse.body as PartSearchResponse;
+
+    expect(fastenerParts.items.map((item) => item.partNumber)).toEqual([
+      'PRT-967002',
+      'SCR-967001',
+    ]);
+
+    const screwPartsResponse = await api(app)
+      .get('/parts')
+      .query({ categoryId: screws.id })
+      .expect(200);
+    const screwParts = screwPartsResponse.body as PartSearchResponse;
+
+    expect(screwParts.items.map((item) => item.partNumber)).toEqual([
+      'SCR-967001',
+    ]);
+
+    const detailsResponse = await api(app)
+      .get(`/parts/${screw.id}`)
+      .expect(200);
+    const details = detailsResponse.body as PartDetailsResponse;
+
+    expect(details.category).toEqual({
+      id: m3.id,
+      name: 'M3',
+      path: ['Fasteners', 'Screws', 'M3'],
+    });
+
+    const treeResponse = await api(app).get('/categories').expect(200);
+    const tree = treeResponse.body as CategoryResponse[];
+
+    expect(tree).toEqual([
+      expect.objectContaining({
+        id: fasteners.id,
+        partCount: 1,
+        children: [
+          expect.objectContaining({
+            id: screws.id,
+            children: [expect.objectContaining({ id: m3.id, partCount: 1 })],
+          }),
+        ],
+      }),
+    ]);
+
+    await api(app)
+      .put(`/categories/${fasteners.id}`)
+      .send({ partNumberPrefix: 'FST-' })
+      .expect(409);
+
+    const moveResponse = await api(app)
+      .put(`/categories/${fasteners.id}`)
+      .send({ parentId: m3.id })
+      .expect(400);
+    const moveError = moveResponse.body as ErrorResponse;
+
+    expect(getErrorMessage(moveError)).toBe(
+      'A category cannot be moved below itself.',
+    );
+
+    await api(app).delete(`/categories/${screws.id}`).expect(409);
+  });
+
+  it('queries audit logs across parts with filters and a cursor', async () => {
+    const startedAt = new Date();
+    const first = await createPart('Audit Query Alpha', 'PRT-968001');
+    await waitForNextTimestamp();
+    const second = await createPart('Audit Query Bravo', 'PRT-968002');
+    await waitForNextTimestamp();
+    await api(app)
+      .put(`/parts/${first.id}`)
+      .send({ version: 1, description: 'Audit query update' })
+      .expect(200);
+
+    const firstPageResponse = await api(app)
+      .get('/audit-logs')
+      .query({ from: startedAt.toISOString(), limit: 2 })
+      .expect(200);
+    const firstPage = firstPageResponse.body as AuditLogPageResponse;
+
+    expect(
+      firstPage.items.map((entry) => [entry.partId, entry.action]),
+    ).toEqual([
+      [first.id, 'PART_UPDATED'],
+      [second.id, 'PART_CREATED'],
+    ]);
+    expect(firstPage.nextCursor).toEqual(expect.any(String));
+
+    const secondPageResponse = await api(app)
+      .get('/audit-logs')
+      .query({
+        from: startedAt.toISOString(),
+        limit: 2,
+        cursor: firstPage.nextCursor,
+      })
+      .expect(200);
+    const secondPage = secondPageResponse.body as AuditLogPageResponse;
+
+    expect(secondPage.items.map((entry) => entry.partId)).toEqual([first.id]);
+    expect(secondPage.nextCursor).toBeNull();
+
+    const filteredResponse = await api(app)
+      .get('/audit-logs')
+      .query({ action: 'PART_CREATED', q: 'prt-968002' })
+      .expect(200);
+    const filtered = filteredResponse.body as AuditLogPageResponse;
+
+    expect(filtered.items.map((entry) => entry.partId)).toEqual([second.id]);
+
+    const partPageResponse = await api(app)
+      .get(`/parts/${first.id}/audit-logs`)
+      .query({ limit: 1 })
+      .expect(200);
+    const partPage = partPageResponse.body as AuditLogPageResponse;
+
+    expect(partPage.items.map((entry) => entry.action)).toEqual([
+      'PART_UPDATED',
+    ]);
+    expect(partPage.nextCursor).toEqual(expect.any(String));
+
+    await api(app).get('/audit-logs').query({ action: 'UNKNOWN' }).expect(400);
+    await api(app)
+      .get('/audit-logs')
+      .query({ from: '2026-02-01T00:00:00Z', to: '2026-01-01T00:00:00Z' })
+      .expect(400);
+  });
+
+  it('rejects stale part and BOM link updates with 412', async () => {
+    const parent = await createPart('Versioned Parent', 'PRT-969101');
+    const child = await createPart('Versioned Child', 'PRT-969102');
+
+    const detailsResponse = await api(app)
+      .get(`/parts/${parent.id}`)
+      .expect(200)
+      .expect('ETag', '"1"');
+    expect((detailsResponse.body as { version: number }).version).toBe(1);
+
+    await api(app)
+      .put(`/parts/${parent.id}`)
+      .send({ name: 'Versioned Parent v2' })
+      .expect(428);
+    await api(app)
+      .put(`/parts/${parent.id}`)
+      .set('If-Match', '"1"')
+      .send({ name: 'Versioned Parent v2' })
+      .expect(200)
+      .expect('ETag', '"2"');
+
+    const staleResponse = await api(app)
+      .put(`/parts/${parent.id}`)
+      .set('If-Match', '"1"')
+      .send({ name: 'Lost Update' })
+      .expect(412);
+    const stale = staleResponse.body as PreconditionFailedResponse<
+      CreatedPartResponse & { version: number }
+    >;
+    expect(getErrorMessage(stale)).toBe(
+      'Part PRT-969101 is at version 2, not 1. Reload it and retry.',
+    );
+    expect(stale.current).toEqual(
+      expect.objectContaining({ name: 'Versioned Parent v2', version: 2 }),
+    );
+
+    await api(app)
+      .put(`/parts/${parent.id}`)
+      .set('If-Match', '"2"')
+      .send({ version: 3, name: 'Mismatch' })
+      .expect(400);
+
+    const linkResponse = await api(app)
+      .post('/bom/links')
+      .send({ parentId: parent.id, childId: child.id, quantity: 1 })
+      .expect(201);
+    const link = linkResponse.body as BomLinkResponse;
+    expect(link.version).toBe(1);
+
+    await api(app)
+      .get(`/bom/links/${link.id}`)
+      .expect(200)
+      .expect('ETag', '"1"');
+    await api(app)
+      .put('/bom/links')
+      .send({ parentId: parent.id, childId: child.id, quantity: 2, version: 1 })
+      .expect(200)
+      .expect('ETag', '"2"');
+
+    const staleLinkResponse = await api(app)
+      .put('/bom/links')
+      .set('If-Match', '"1"')
+      .send({ parentId: parent.id, childId: child.id, quantity: 3 })
+      .expect(412);
+    const staleLink =
+      staleLinkResponse.body as PreconditionFailedResponse<BomLinkResponse>;
+    expect(staleLink.current).toEqual(
+      expect.objectContaining({ id: link.id, quantity: 2, version: 2 }),
+    );
+  });
+
+  it('applies batch BOM link operations all together or not at all', async () => {
+    const root = await createPart('Batch Root', 'PRT-969201');
+    const frame = await createPart('Batch Frame', 'PRT-969202');
+    const bracket = await createPart('Batch Bracket', 'PRT-969203');
+    const screw = await createPart('Batch Screw', 'PRT-969204');
+
+    await linkParts(root.id, frame.id, 1);
+    await linkParts(frame.id, bracket.id, 1);
+
+    const invalidResponse = await api(app)
+      .post('/bom/links/batch')
+      .send({
+        operations: [
+          { op: 'create', parentId: root.id, childId: screw.id, quantity: 2 },
+          { op: 'create', parentId: bracket.id, childId: root.id },
+          {
+            op: 'update',
+            parentId: root.id,
+            childId: frame.id,
+            quantity: 3,
+            version: 1,
+          },
+          { op: 'remove', parentId: root.id, childId: 'PART-9999' },
+        ],
+      })
+      .expect(400);
+    const invalid = invalidResponse.body as BomLinkBatchErrorResponse;
+
+    expect(getErrorMessage(invalid)).toBe(
+      'Batch has 2 invalid operation(s). Nothing was changed.',
+    );
+    expect(invalid.errors).toEqual([
+      {
+        index: 1,
+        message: 'BOM link creation failed because it would introduce a cycle.',
+      },
+      { index: 3, message: "Part 'PART-9999' was not found." },
+    ]);
+
+    const unchangedResponse = await api(app)
+      .get(`/parts/${root.id}`)
+      .expect(200);
+    const unchanged = unchangedResponse.body as PartDetailsResponse;
+    expect(
+      unchanged.childParts.map((child) => [child.id, child.quantity]),
+    ).toEqual([[frame.id, 1]]);
+
+    const batchResponse = await api(app)
+      .post('/bom/links/batch')
+      .send({
+        operations: [
+          { op: 'create', parentId: bracket.id, childId: root.id },
+          { op: 'remove', parentId: frame.id, childId: bracket.id },
+          {
+            op: 'update',
+            parentId: root.id,
+            childId: frame.id,
+            quantity: 3,
+            version: 1,
+          },
+          { op: 'create', parentId: root.id, childId: screw.id, quantity: 2 },
+        ],
+      })
+      .expect(201);
+    const batch = batchResponse.body as BomLinkBatchResponse;
+
+    expect(batch.operationCount).toBe(4);
+    expect(batch.results.map((result) => [result.index, result.op])).toEqual([
+      [0, 'create'],
+      [1, 'remove'],
+      [2, 'update'],
+      [3, 'create'],
+    ]);
+    expect(batch.results[2].link).toEqual(
+      expect.objectContaining({ quantity: 3, version: 2 }),
+    );
+
+    const rootResponse = await api(app).get(`/parts/${root.id}`).expect(200);
+    const rootDetails = rootResponse.body as PartDetailsResponse;
+    expect(
+      rootDetails.childParts.map((child) => [child.id, child.quantity]),
+    ).toEqual([
+      [frame.id, 3],
+      [screw.id, 2],
+    ]);
+    expect(rootDetails.parentParts.map((parent) => parent.id)).toEqual([
+      bracket.id,
+    ]);
+
+    const frameAuditResponse = await api(app)
+      .get(`/parts/${frame.id}/audit-logs`)
+      .expect(200);
+    const frameAudits = (frameAuditResponse.body as AuditLogPageResponse).items;
+    expect(frameAudits.map((audit) => audit.action)).toEqual(
+      expect.arrayContaining(['BOM_LINK_REMOVED', 'BOM_LINK_UPDATED']),
+    );
+
+    const staleResponse = await api(app)
+      .post('/bom/links/batch')
+      .send({
+        operations: [
+          {
+            op: 'update',
+            parentId: root.id,
+            childId: frame.id,
+            quantity: 4,
+            version: 1,
+          },
+        ],
+      })
+      .expect(412);
+    expect(
+      (staleResponse.body as PreconditionFailedResponse<BomLinkResponse>)
+        .current.version,
+    ).toBe(2);
+
+    await api(app)
+      .post('/bom/links/batch')
+      .send({ operations: [] })
+      .expect(400);
+
+    const nonStringIdResponse = await api(app)
+      .post('/bom/links/batch')
+      .send({
+        operations: [{ op: 'create', parentId: 42, childId: frame.id }],
+      })
+      .expect(400);
+    expect(getErrorMessage(nonStringIdResponse.body as ErrorResponse)).toBe(
+      'operations[0] requires both parentId and childId.',
+    );
+  });
+
+  it('replaces the full child list of an assembly', async () => {
+    const assembly = await createPart('Replace Assembly', 'PRT-969301');
+    const housing = await createPart('Replace Housing', 'PRT-969302');
+    const gasket = await createPart('Replace Gasket', 'PRT-969303');
+    const cover = await createPart('Replace Cover', 'PRT-969304');
+    const latch = await createPart('Replace Latch', 'PRT-969305');
+
+    await linkParts(assembly.id, housing.id, 2);
+    await linkParts(assembly.id, gasket.id, 1);
+    await linkParts(assembly.id, cover.id, 1);
+
+    const invalidResponse = await api(app)
+      .put(`/bom/${assembly.id}/children`)
+      .send({
+        children: [
+          { childId: housing.id, quantity: 2 },
+          { childId: assembly.id, quantity: 1 },
+        ],
+      })
+      .expect(400);
+    const invalid = invalidResponse.body as ErrorResponse & {
+      errors: { childId: string; message: string }[];
+    };
+    expect(invalid.errors).toEqual(
+      expect.arrayContaining([
+        {
+          childId: assembly.id,
+          message: 'A part cannot be linked to itself in BOM.',
+        },
+      ]),
+    );
+
+    const replaceResponse = await api(app)
+      .put(`/bom/${assembly.id}/children`)
+      .send({
+        children: [
+          { childId: housing.id, quantity: 2 },
+          { childId: gasket.id, quantity: 4 },
+          { childId: latch.id, quantity: 3 },
+        ],
+      })
+      .expect(200);
+    const replaced = replaceResponse.body as BomChildrenReplaceResponse;
+
+    expect(replaced.isChanged).toBe(true);
+    expect(replaced.unchangedCount).toBe(1);
+    expect(replaced.added).toEqual([
+      expect.objectContaining({
+        part: expect.objectContaining({ id: latch.id }) as unknown,
+        toQuantity: 3,
+      }),
+    ]);
+    expect(replaced.removed).toEqual([
+      expect.objectContaining({
+        part: expect.objectContaining({ id: cover.id }) as unknown,
+        fromQuantity: 1,
+      }),
+    ]);
+    expect(replaced.changed).toEqual([
+      expect.objectContaining({
+        part: expect.objectContaining({ id: gasket.id }) as unknown,
+        fromQuantity: 1,
+        toQuantity: 4,
+      }),
+    ]);
+
+    const detailsResponse = await api(app)
+      .get(`/parts/${assembly.id}`)
+      .expect(200);
+    const details = detailsResponse.body as PartDetailsResponse;
+    expect(
+      details.childParts.map((child) => [child.id, child.quantity]),
+    ).toEqual([
+      [housing.id, 2],
+      [gasket.id, 4],
+      [latch.id, 3],
+    ]);
+
+    const coverAuditResponse = await api(app)
+      .get(`/parts/${cover.id}/audit-logs`)
+      .expect(200);
+    const coverAudits = (coverAuditResponse.body as AuditLogPageResponse).items;
+    expect(coverAudits[0].action).toBe('BOM_LINK_REMOVED');
+
+    const repeatResponse = await api(app)
+      .put(`/bom/${assembly.id}/children`)
+      .send({
+        children: [
+          { childId: housing.id, quantity: 2 },
+          { childId: gasket.id, quantity: 4 },
+          { childId: latch.id, quantity: 3 },
+        ],
+      })
+      .expect(200);
+    expect(repeatResponse.body).toEqual(
+      expect.objectContaining({ isChanged: false, unchangedCount: 3 }),
+    );
+
+    await api(app)
+      .put(`/bom/${assembly.id}/children`)
+      .send({
+        children: [
+          { childId: housing.id, quantity: 2 },
+          { childId: gasket.id, quantity: 4 },
+          {
+            childId: latch.id,
+            quantity: 3,
+            referenceDesignators: ['u1', 'U2', 'U3'],
+          },
+        ],
+      })
+      .expect(200)
+      .expect((response) => {
+        expect(response.body).toEqual(
+          expect.objectContaining({ isChanged: true, unchangedCount: 2 }),
+        );
+      });
+
+    const designatorCountResponse = await api(app)
+      .put(`/bom/${assembly.id}/children`)
+      .send({
+        children: [
+          { childId: housing.id, quantity: 2 },
+          { childId: gasket.id, quantity: 4 },
+          { childId: latch.id, quantity: 2 },
+        ],
+      })
+      .expect(400);
+    expect(
+      (
+        designatorCountResponse.body as ErrorResponse & {
+          errors: { childId: string; message: string }[];
+        }
+      ).errors,
+    ).toEqual([
+      {
+        childId: latch.id,
+        message: 'BOM line has 3 reference designator(s) but quantity 2.',
+      },
+    ]);
+
+    await api(app)
+      .put(`/bom/${assembly.id}/children`)
+      .send({
+        children: [
+          { childId: housing.id, quantity: 2 },
+          { childId: gasket.id, quantity: 4 },
+          {
+            childId: latch.id,
+            quantity: 2,
+            referenceDesignators: ['U1', 'U2'],
+          },
+        ],
+      })
+      .expect(200);
+
+    const designatorDetailsResponse = await api(app)
+      .get(`/parts/${assembly.id}`)
+      .expect(200);
+    expect(
+      (designatorDetailsResponse.body as PartDetailsResponse).childParts.find(
+        (child) => child.id === latch.id,
+      ),
+    ).toEqual(
+      expect.objectContaining({
+        quantity: 2,
+        referenceDesignators: ['U1', 'U2'],
+      }),
+    );
+
+    await api(app)
+      .put(`/bom/${assembly.id}/children`)
+      .send({
+        children: [
+          { childId: housing.id, quantity: 2 },
+          { childId: housing.id, quantity: 1 },
+        ],
+      })
+      .expect(400);
+
+    const seal = await createPart('Replace Seal', 'PRT-969306');
+    await api(app)
+      .post('/bom/links')
+      .send({
+        parentId: assembly.id,
+        childId: seal.id,
+        effectiveFrom: '2020-01-01T00:00:00.000Z',
+        effectiveTo: '2021-01-01T00:00:00.000Z',
+      })
+      .expect(201);
+
+    const expiredResponse = await api(app)
+      .put(`/bom/${assembly.id}/children`)
+      .send({
+        children: [
+          { childId: housing.id, quantity: 2 },
+          { childId: gasket.id, quantity: 4 },
+          { childId: latch.id, quantity: 2 },
+          { childId: seal.id, quantity: 1 },
+        ],
+      })
+      .expect(200);
+    const expired = expiredResponse.body as BomChildrenReplaceResponse;
+    expect(expired.unchangedCount).toBe(3);
+    expect(expired.added).toEqual([
+      expect.objectContaining({
+        part: expect.objectContaining({ id: seal.id }) as unknown,
+        toQuantity: 1,
+      }),
+    ]);
+  });
+
+  it('clones a part with a shallow or deep copy of its BOM', async () => {
+    const assembly = await createPart('Clone Assembly', 'PRT-969401');
+    const frame = await createPart('Clone Frame', 'PRT-969402');
+    const bracket = await createPart('Clone Bracket', 'PRT-969403');
+    const screw = await createPart('Clone Screw', 'PRT-969404');
+
+    await linkParts(assembly.id, frame.id, 1);
+    await linkParts(assembly.id, screw.id, 8);
+    await linkParts(frame.id, bracket.id, 2);
+
+    const spareFrame = await createPart('Clone Spare Frame', 'PRT-969405');
+    await api(app)
+      .post(`/parts/${frame.id}/alternates`)
+      .send({ alternatePartId: spareFrame.id })
+      .expect(201);
+
+    const shallowResponse = await api(app)
+      .post(`/parts/${assembly.id}/clone`)
+      .send({ partNumber: 'prt-969410', name: 'Clone Assembly Variant' })
+      .expect(201);
+    const shallow = shallowResponse.body as PartCloneResponse;
+
+    expect(shallow.part).toEqual(
+      expect.objectContaining({
+        partNumber: 'PRT-969410',
+        name: 'Clone Assembly Variant',
+        status: 'DRAFT',
+        revision: 'A',
+      }),
+    );
+    expect(shallow.depth).toBe(1);
+    expect(shallow.linkCount).toBe(2);
+    expect(shallow.copiedParts).toHaveLength(1);
+
+    const shallowDetailsResponse = await api(app)
+      .get(`/parts/${shallow.part.id}`)
+      .expect(200);
+    const shallowDetails = shallowDetailsResponse.body as PartDetailsResponse;
+    expect(
+      shallowDetails.childParts.map((child) => [child.id, child.quantity]),
+    ).toEqual([
+      [frame.id, 1],
+      [screw.id, 8],
+    ]);
+
+    const deepResponse = await api(app)
+      .post(`/parts/${assembly.id}/clone`)
+      .send({ partNumber: 'PRT-969411', depth: 2, partNumberSuffix: '-b' })
+      .expect(201);
+    const deep = deepResponse.body as PartCloneResponse;
+
+    expect(deep.linkCount).toBe(3);
+    expect(
+      deep.copiedParts.map((copied) => [
+        copied.source.partNumber,
+        copied.part.partNumber,
+      ]),
+    ).toEqual([
+      ['PRT-969401', 'PRT-969411'],
+      ['PRT-969402', 'PRT-969402-B'],
+    ]);
+
+    const frameCopy = deep.copiedParts[1].part;
+    const deepDetailsResponse = await api(app)
+      .get(`/parts/${deep.part.id}`)
+      .expect(200);
+    const deepDetails = deepDetailsResponse.body as PartDetailsResponse;
+    expect(deepDetails.name).toBe('Clone Assembly');
+    expect(deepDetails.childParts.map((child) => child.id)).toEqual([
+      frameCopy.id,
+      screw.id,
+    ]);
+
+    const frameCopyResponse = await api(app)
+      .get(`/parts/${frameCopy.id}`)
+      .expect(200);
+    const frameCopyDetails = frameCopyResponse.body as PartDetailsResponse;
+    expect(
+      frameCopyDetails.childParts.map((child) => [child.id, child.quantity]),
+    ).toEqual([[bracket.id, 2]]);
+    expect(
+      frameCopyDetails.alternates.map((alternate) => [
+        alternate.part.id,
+        alternate.rank,
+      ]),
+    ).toEqual([[spareFrame.id, 1]]);
+
+    const copyAuditResponse = await api(app)
+      .get(`/parts/${frameCopy.id}/audit-logs`)
+      .expect(200);
+    const copyAudits = (copyAuditResponse.body as AuditLogPageResponse).items;
+    const copyCreatedAudit = copyAudits.find(
+      (entry) => entry.action === 'PART_CREATED',
+    );
+    expect(copyCreatedAudit?.message).toBe(
+      'Part PRT-969402-B was created as a copy of PRT-969402 revision A.',
+    );
+    expect(copyCreatedAudit?.metadata).toEqual(
+      expect.objectContaining({ sourceStatus: 'DRAFT' }),
+    );
+
+    const sourceAuditResponse = await api(app)
+      .get(`/parts/${frame.id}/audit-logs`)
+      .expect(200);
+    const sourceAudits = (sourceAuditResponse.body as AuditLogPageResponse)
+      .items;
+    expect(sourceAudits[0]).toEqual(
+      expect.objectContaining({
+        action: 'PART_CLONED',
+        message: 'Part PRT-969402 revision A was copied to PRT-969402-B.',
+      }),
+    );
+
+    const duplicateResponse = await api(app)
+      .post(`/parts/${assembly.id}/clone`)
+      .send({ depth: 2, partNumberSuffix: '-B' })
+      .expect(400);
+    expect(getErrorMessage(duplicateResponse.body as ErrorResponse)).toBe(
+      "Part number 'PRT-969402-B' already exists.",
+    );
+
+    await api(app)
+      .post(`/parts/${assembly.id}/clone`)
+      .send({ depth: 6 })
+      .expect(400);
+  });
+
+  it('replaces a component across its where-used assemblies', async () => {
+    const oldCapacitor = await createPart('Old Capacitor', 'PRT-969501');
+    const newCapacitor = await createPart('New Capacitor', 'PRT-969502');
+    const powerBoard = await createPart('Power Board', 'PRT-969503');
+    const sensorBoard = await createPart('Sensor Board', 'PRT-969504');
+    const filterModule = await createPart('Filter Module', 'PRT-969505');
+
+    await linkParts(powerBoard.id, oldCapacitor.id, 2);
+    await linkParts(sensorBoard.id, oldCapacitor.id, 3);
+    await linkParts(filterModule.id, oldCapacitor.id, 1);
+    await linkParts(newCapacitor.id, filterModule.id, 1);
+
+    const spareCapacitor = await createPart('Spare Capacitor', 'PRT-969506');
+    await api(app)
+      .post('/bom/links/alternates')
+      .send({
+        parentId: powerBoard.id,
+        childId: oldCapacitor.id,
+        alternatePartId: spareCapacitor.id,
+      })
+      .expect(201);
+
+    const mixedBoard = await createPart('Mixed Board', 'PRT-969507');
+    await linkParts(mixedBoard.id, oldCapacitor.id, 1);
+    await linkParts(mixedBoard.id, newCapacitor.id, 1);
+
+    const mergeResponse = await api(app)
+      .post(`/bom/${oldCapacitor.id}/where-used/replace`)
+      .send({
+        replacementPartId: newCapacitor.id,
+        parentIds: [mixedBoard.id],
+      })
+      .expect(400);
+    expect(
+      (
+        mergeResponse.body as ErrorResponse & {
+          errors: { parentId: string; message: string }[];
+        }
+      ).errors,
+    ).toEqual([
+      {
+        parentId: mixedBoard.id,
+        message:
+          'PRT-969507 already uses PRT-969502. Change or remove that line before replacing PRT-969501.',
+      },
+    ]);
+
+    const cycleResponse = await api(app)
+      .post(`/bom/${oldCapacitor.id}/where-used/replace`)
+      .send({
+        replacementPartId: newCapacitor.id,
+        parentIds: [powerBoard.id, sensorBoard.id, filterModule.id],
+      })
+      .expect(400);
+    const cycle = cycleResponse.body as ErrorResponse & {
+      errors: { parentId: string; message: string }[];
+    };
+    expect(cycle.errors).toEqual([
+      {
+        parentId: filterModule.id,
+        message: 'BOM link creation failed because it would introduce a cycle.',
+      },
+    ]);
+
+    const missingParentResponse = await api(app)
+      .post(`/bom/${oldCapacitor.id}/where-used/replace`)
+      .send({
+        replacementPartId: newCapacitor.id,
+        parentIds: [newCapacitor.id],
+      })
+      .expect(400);
+    expect(getErrorMessage(missingParentResponse.body as ErrorResponse)).toBe(
+      `Part '${newCapacitor.id}' does not use PRT-969501 in its current revision.`,
+    );
+
+    const replaceResponse = await api(app)
+      .post(`/bom/${oldCapacitor.id}/where-used/replace`)
+      .send({
+        replacementPartId: newCapacitor.id,
+        parentIds: [powerBoard.id, sensorBoard.id],
+        quantityMultiplier: 2,
+      })
+      .expect(201);
+    const replaced = replaceResponse.body as ComponentReplaceResponse;
+
+    expect(replaced.parentCount).toBe(2);
+    expect(replaced.linkCount).toBe(2);
+    expect(
+      replaced.parents.map((report) => [
+        report.parent.id,
+        report.links[0].fromQuantity,
+        report.links[0].toQuantity,
+      ]),
+    ).toEqual([
+      [powerBoard.id, 2, 4],
+      [sensorBoard.id, 3, 6],
+    ]);
+    expect(
+      replaced.parents[0].links[0].removedAlternates.map((alternate) => [
+        alternate.part.id,
+        alternate.scope,
+      ]),
+    ).toEqual([[spareCapacitor.id, 'LINE']]);
+
+    const oldDetailsResponse = await api(app)
+      .get(`/parts/${oldCapacitor.id}`)
+      .expect(200);
+    const oldDetails = oldDetailsResponse.body as PartDetailsResponse;
+    expect(oldDetails.parentParts.map((parent) => parent.id)).toEqual([
+      filterModule.id,
+      mixedBoard.id,
+    ]);
+
+    const boardResponse = await api(app)
+      .get(`/parts/${powerBoard.id}`)
+      .expect(200);
+    const board = boardResponse.body as PartDetailsResponse;
+    expect(board.childParts.map((child) => [child.id, child.quantity])).toEqual(
+      [[newCapacitor.id, 4]],
+    );
+
+    const auditResponse = await api(app)
+      .get(`/parts/${powerBoard.id}/audit-logs`)
+      .expect(200);
+    const audits = (auditResponse.body as AuditLogPageResponse).items;
+    expect(audits.slice(0, 2).map((entry) => entry.action)).toEqual([
+      'BOM_LINK_CREATED',
+      'BOM_LINK_REMOVED',
+    ]);
+    for (const entry of audits.slice(0, 2)) {
+      expect(entry.metadata).toEqual(
+        expect.objectContaining({
+          replacedPartId: oldCapacitor.id,
+          replacementPartId: newCapacitor.id,
+        }),
+      );
+    }
+
+    const oldAuditResponse = await api(app)
+      .get('/audit-logs')
+      .query({ partId: oldCapacitor.id, action: 'BOM_ALTERNATE_REMOVED' })
+      .expect(200);
+    expect((oldAuditResponse.body as AuditLogPageResponse).items).toEqual([
+      expect.objectContaining({
+        message:
+          'Removed PRT-969506 as alternate for child PRT-969501 in PRT-969503 because the BOM line was removed.',
+      }),
+    ]);
+  });
+
+  it('requires credentials and enforces roles', async () => {
+    const secret = 'e2e-jwt-secret';
+    const signToken = (claims: Record<string, unknown>) => {
+      const encode = (value: unknown) =>
+        Buffer.from(JSON.stringify(value)).toString('base64url');
+      const content = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+      const signature = createHmac('sha256', secret)
+        .update(content)
+        .digest('base64url');
+      return `${content}.${signature}`;
+    };
+    const now = Math.floor(Date.now() / 1000);
+
+    process.env.AUTH_DISABLED = 'false';
+    process.env.AUTH_API_KEYS = 'dashboard:viewer:viewer-key';
+    process.env.AUTH_JWT_SECRET = secret;
+
+    try {
+      await app.close();
+      app = await createTestApp();
+
+      await api(app).get('/health').expect(200);
+      await api(app).get('/parts').expect(401);
+      await api(app).get('/parts').set('X-API-Key', 'wrong-key').expect(401);
+      await api(app).get('/parts').set('X-API-Key', 'viewer-key').expect(200);
+
+      const forbidden = await api(app)
+        .post('/parts')
+        .set('X-API-Key', 'viewer-key')
+        .send({ name: 'Viewer Part', partNumber: 'PRT-969001' })
+        .expect(403);
+      expect(getErrorMessage(forbidden.body as ErrorResponse)).toContain(
+        'editor',
+      );
+
+      const editorToken = signToken({
+        sub: 'alice',
+        role: 'editor',
+        exp: now + 300,
+      });
+      const created = await api(app)
+        .post('/parts')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ name: 'Editor Part', partNumber: 'PRT-969002' })
+        .expect(201);
+      const part = created.body as CreatedPartResponse;
+
+      await api(app)
+        .post('/attributes')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ key: 'voltage', label: 'Voltage', type: 'NUMBER' })
+        .expect(403);
+
+      const auditResponse = await api(app)
+        .get('/audit-logs')
+        .set('X-API-Key', 'viewer-key')
+        .query({ actor: 'alice' })
+        .expect(200);
+      const audits = (auditResponse.body as AuditLogPageResponse).items;
+      expect(audits).toEqual([
+        expect.objectContaining({
+          partId: part.id,
+          action: 'PART_CREATED',
+          actor: 'alice',
+        }),
+      ]);
+
+      const expiredToken = signToken({
+        sub: 'alice',
+        role: 'editor',
+        exp: now - 60,
+      });
+      await api(app)
+        .get('/parts')
+        .set('Authorization', `Bearer ${expiredToken}`)
+        .expect(401);
+      const [header, , signature] = editorToken.split('.');
+      const escalatedClaims = Buffer.from(
+        JSON.stringify({ sub: 'alice', role: 'admin', exp: now + 300 }),
+      ).toString('base64url');
+      await api(app)
+        .post('/attributes')
+        .set(
+          'Authorization',
+          `Bearer ${header}.${escalatedClaims}.${signature}`,
+        )
+        .send({ key: 'voltage', label: 'Voltage', type: 'NUMBER' })
+        .expect(401);
+    } finally {
+      process.env.AUTH_DISABLED = 'true';
+      delete process.env.AUTH_API_KEYS;
+      delete process.env.AUTH_JWT_SECRET;
+    }
+  });
+
   it('persists data across app restarts with postgres', async () => {
     const createdResponse = await api(app)
       .post('/parts')
@@ -872,7 +3805,7 @@ describeWithDatabase('Part BOM API (e2e) - PostgreSQL', () => {
       .get('/parts')
       .query({ q: 'Persistent Part' })
       .expect(200);
-    const searchResults = searchResponse.body as PartSummaryResponse[];
+    const searchResults = (searchResponse.body as PartSearchResponse).items;
 
     expect(searchResults).toEqual(
       expect.arrayContaining([